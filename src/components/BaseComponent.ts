@@ -0,0 +1,66 @@
+import { WebDriver, By, until, WebElement } from 'selenium-webdriver';
+
+import config from '../config/test.config.js';
+
+/**
+ * Base Component class for parts of a page, e.g. a product card
+ * Locators are resolved inside the component's root element
+ */
+export default class BaseComponent {
+  protected driver: WebDriver;
+  protected root: WebElement;
+  protected timeout: number;
+
+  constructor(driver: WebDriver, root: WebElement) {
+    this.driver = driver;
+    this.root = root;
+    this.timeout = config.getTimeoutConfig().explicit;
+  }
+
+  // Get the root element of the component
+  public getRootElement(): WebElement {
+    return this.root;
+  }
+
+  // Find element inside the component
+  protected async find(locator: By): Promise<WebElement> {
+    try {
+      return await this.root.findElement(locator);
+    } catch (error) {
+      throw new Error(`Failed to find element ${locator.toString()} in ${this.constructor.name}: ${(error as Error).message}`);
+    }
+  }
+
+  // Find elements inside the component, returns empty array if none found
+  protected async findAll(locator: By): Promise<WebElement[]> {
+    return await this.root.findElements(locator);
+  }
+
+  // Click element inside the component once it is visible and enabled
+  protected async click(locator: By): Promise<void> {
+    try {
+      const element = await this.find(locator);
+      await this.driver.wait(until.elementIsVisible(element), this.timeout);
+      await this.driver.wait(until.elementIsEnabled(element), this.timeout);
+      await element.click();
+    } catch (error) {
+      throw new Error(`Failed to click element ${locator.toString()} in ${this.constructor.name}: ${(error as Error).message}`);
+    }
+  }
+
+  // Get text from element inside the component
+  protected async getText(locator: By): Promise<string> {
+    return await (await this.find(locator)).getText();
+  }
+
+  // Check if an element inside the component is displayed
+  protected async isDisplayed(locator: By): Promise<boolean> {
+    const elements = await this.findAll(locator);
+    return elements.length > 0 && await elements[0].isDisplayed();
+  }
+
+  // Parse a price label such as "$29.99" or "Item total: $29.99"
+  protected parsePrice(text: string): number {
+    return parseFloat(text.replace(/[^0-9.]/g, ''));
+  }
+}
@@ -0,0 +1,65 @@
+import { WebDriver, By, WebElement } from 'selenium-webdriver';
+
+import type { CartItem } from '../types/index.js';
+
+import BaseComponent from './BaseComponent.js';
+
+/**
+ * Cart Row Component
+ * A product row in the cart and in the checkout overview
+ */
+export default class CartRowComponent extends BaseComponent {
+  private readonly quantity: By = By.css('.cart_quantity');
+  private readonly name: By = By.css('.inventory_item_name');
+  private readonly description: By = By.css('.inventory_item_desc');
+  private readonly price: By = By.css('.inventory_item_price');
+  private readonly titleLink: By = By.css('a[id$="_title_link"]');
+  private readonly removeButton: By = By.css('button[data-test^="remove"]');
+
+  constructor(driver: WebDriver, root: WebElement) {
+    super(driver, root);
+  }
+
+  public async getName(): Promise<string> {
+    return await this.getText(this.name);
+  }
+
+  public async getDescription(): Promise<string> {
+    return await this.getText(this.description);
+  }
+
+  public async getPrice(): Promise<number> {
+    return this.parsePrice(await this.getText(this.price));
+  }
+
+  public async getQuantity(): Promise<number> {
+    return parseInt(await this.getText(this.quantity), 10);
+  }
+
+  // Check if the row can be removed, rows in the checkout overview cannot
+  public async isRemovable(): Promise<boolean> {
+    return await this.isDisplayed(this.removeButton);
+  }
+
+  public async remove(): Promise<void> {
+    await this.click(this.removeButton);
+  }
+
+  // Open the product details page through the product name
+  public async openDetails(): Promise<void> {
+    await this.click(this.titleLink);
+  }
+
+  /**
+   * Read the product shown by the row
+   * @returns CartItem with name, description, price and quantity
+   */
+  public async toCartItem(): Promise<CartItem> {
+    return {
+      name: await this.getName(),
+      description: await this.getDescription(),
+      price: await this.getPrice(),
+      quantity: await this.getQuantity()
+    };
+  }
+}
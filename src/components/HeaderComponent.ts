@@ -0,0 +1,88 @@
+import { WebDriver, By, until, WebElement } from 'selenium-webdriver';
+
+import BaseComponent from './BaseComponent.js';
+
+/**
+ * Header Component
+ * The primary header of every page behind login: burger menu, sidebar links and cart
+ */
+export default class HeaderComponent extends BaseComponent {
+  private readonly burgerMenu: By = By.id('react-burger-menu-btn');
+  private readonly closeMenuButton: By = By.id('react-burger-cross-btn');
+  private readonly menuWrap: By = By.css('.bm-menu-wrap');
+  private readonly allItemsLink: By = By.id('inventory_sidebar_link');
+  private readonly aboutLink: By = By.id('about_sidebar_link');
+  private readonly logoutLink: By = By.id('logout_sidebar_link');
+  private readonly resetAppLink: By = By.id('reset_sidebar_link');
+  private readonly shoppingCart: By = By.css('.shopping_cart_link');
+  private readonly cartBadge: By = By.css('.shopping_cart_badge');
+
+  constructor(driver: WebDriver, root: WebElement) {
+    super(driver, root);
+  }
+
+  // Get the number on the cart badge, 0 when there is no badge
+  public async getCartItemCount(): Promise<number> {
+    const badges = await this.findAll(this.cartBadge);
+    if (badges.length === 0 || !(await badges[0].isDisplayed())) {
+      return 0;
+    }
+    return parseInt(await badges[0].getText(), 10);
+  }
+
+  public async isCartBadgeDisplayed(): Promise<boolean> {
+    return await this.isDisplayed(this.cartBadge);
+  }
+
+  // Open the cart, closing the menu first as it covers the header on narrow viewports
+  public async openCart(): Promise<void> {
+    if (await this.isMenuOpen()) {
+      await this.closeMenu();
+    }
+    await this.click(this.shoppingCart);
+  }
+
+  // Open burger menu and wait for the sidebar to show
+  public async openMenu(): Promise<void> {
+    await this.click(this.burgerMenu);
+    await this.driver.wait(until.elementIsVisible(await this.find(this.menuWrap)), this.timeout);
+  }
+
+  // Close burger menu and wait for the sidebar to hide
+  public async closeMenu(): Promise<void> {
+    await this.click(this.closeMenuButton);
+    const menu = await this.find(this.menuWrap);
+    await this.driver.wait(async () => !(await menu.isDisplayed()), this.timeout, 'Menu did not close');
+  }
+
+  // Check if the burger menu sidebar is open
+  public async isMenuOpen(): Promise<boolean> {
+    return await this.isDisplayed(this.menuWrap);
+  }
+
+  // Go to the products page through the All Items sidebar link
+  public async goToAllItems(): Promise<void> {
+    await this.clickSidebarLink(this.allItemsLink);
+  }
+
+  // Get where the About sidebar link points to
+  public async getAboutUrl(): Promise<string> {
+    return await (await this.find(this.aboutLink)).getAttribute('href');
+  }
+
+  public async logout(): Promise<void> {
+    await this.clickSidebarLink(this.logoutLink);
+  }
+
+  // Clear the cart through the Reset App State sidebar link, product buttons only update on reload
+  public async resetAppState(): Promise<void> {
+    await this.clickSidebarLink(this.resetAppLink);
+  }
+
+  private async clickSidebarLink(link: By): Promise<void> {
+    if (!(await this.isMenuOpen())) {
+      await this.openMenu();
+    }
+    await this.click(link);
+  }
+}
@@ -0,0 +1,76 @@
+import { WebDriver, By, WebElement } from 'selenium-webdriver';
+
+import type { Product } from '../types/index.js';
+
+import BaseComponent from './BaseComponent.js';
+
+/**
+ * Inventory Item Component
+ * A product card on the products page
+ */
+export default class InventoryItemComponent extends BaseComponent {
+  private readonly name: By = By.css('.inventory_item_name');
+  private readonly description: By = By.css('.inventory_item_desc');
+  private readonly price: By = By.css('.inventory_item_price');
+  private readonly image: By = By.css('img.inventory_item_img');
+  private readonly titleLink: By = By.css('a[id$="_title_link"]');
+  private readonly addToCartButton: By = By.css('button[data-test^="add-to-cart"]');
+  private readonly removeButton: By = By.css('button[data-test^="remove"]');
+
+  constructor(driver: WebDriver, root: WebElement) {
+    super(driver, root);
+  }
+
+  public async getName(): Promise<string> {
+    return await this.getText(this.name);
+  }
+
+  public async getDescription(): Promise<string> {
+    return await this.getText(this.description);
+  }
+
+  public async getPriceText(): Promise<string> {
+    return await this.getText(this.price);
+  }
+
+  public async getPrice(): Promise<number> {
+    return this.parsePrice(await this.getPriceText());
+  }
+
+  // Get the image source, problem_user gets the same broken image for every product
+  public async getImageSrc(): Promise<string> {
+    return await (await this.find(this.image)).getAttribute('src');
+  }
+
+  // Check if the product is in the cart, its button then reads Remove
+  public async isInCart(): Promise<boolean> {
+    return await this.isDisplayed(this.removeButton);
+  }
+
+  public async addToCart(): Promise<void> {
+    await this.click(this.addToCartButton);
+  }
+
+  public async removeFromCart(): Promise<void> {
+    await this.click(this.removeButton);
+  }
+
+  // Open the product details page through the product name
+  public async openDetails(): Promise<void> {
+    await this.click(this.titleLink);
+  }
+
+  /**
+   * Read the product shown by the card
+   * @returns Product with name, description and price
+   */
+  public async toProduct(): Promise<Product> {
+    const priceText = await this.getPriceText();
+    return {
+      name: await this.getName(),
+      description: await this.getDescription(),
+      price: this.parsePrice(priceText),
+      priceText
+    };
+  }
+}
@@ -0,0 +1,271 @@
+import { Builder, Capabilities, logging, WebDriver } from 'selenium-webdriver';
+import chrome from 'selenium-webdriver/chrome.js';
+import chromium from 'selenium-webdriver/chromium.js';
+import edge from 'selenium-webdriver/edge.js';
+import firefox from 'selenium-webdriver/firefox.js';
+import safari from 'selenium-webdriver/safari.js';
+
+import type { BrowserLaunchSettings, BrowserProfile, BrowserProfileConfig, DeviceProfile } from '../types/index.js';
+
+/**
+ * Browser profiles
+ * Each profile knows how to build options for one browser and attach them to a Builder.
+ * Built-in profiles cover Chrome, Firefox, Edge and Safari; custom profiles from config
+ * extend a built-in one with extra flags, a user-data-dir, a proxy or capabilities.
+ */
+
+export const BUILT_IN_BROWSER_PROFILES = ['chrome', 'firefox', 'edge', 'safari'];
+
+const CHROMIUM_ARGUMENTS = [
+  '--no-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-gpu',
+  '--disable-extensions',
+  '--disable-blink-features=AutomationControlled'
+];
+
+const CHROMIUM_PREFERENCES: Record<string, unknown> = {
+  'profile.default_content_setting_values.notifications': 2,
+  'profile.password_manager_leak_detection': false,
+  'credentials_enable_service': false,
+  'profile.password_manager_enabled': false,
+};
+
+// Chromedriver mobileEmulation with explicit device metrics and user agent
+interface ChromiumMobileEmulation {
+  deviceMetrics: { width: number; height: number; pixelRatio: number; mobile: boolean; touch: boolean };
+  userAgent?: string;
+}
+
+// setMobileEmulation hands its config to chromedriver as is, the typings only know the flat metrics form
+declare module 'selenium-webdriver/chromium.js' {
+  interface Options {
+    setMobileEmulation(config: ChromiumMobileEmulation): Options;
+  }
+}
+
+function emulateChromiumDevice(options: chromium.Options, device: DeviceProfile): void {
+  const emulation: ChromiumMobileEmulation = {
+    deviceMetrics: {
+      width: device.width,
+      height: device.height,
+      pixelRatio: device.pixelRatio,
+      mobile: true,
+      touch: true
+    },
+    userAgent: device.userAgent
+  };
+  options.setMobileEmulation(emulation);
+}
+
+// Console and DevTools network events for failure evidence, read back through the log endpoint
+function createLoggingPrefs(): logging.Preferences {
+  const prefs = new logging.Preferences();
+  prefs.setLevel(logging.Type.BROWSER, logging.Level.ALL);
+  prefs.setLevel(logging.Type.PERFORMANCE, logging.Level.ALL);
+  return prefs;
+}
+
+// Shared launch arguments for Chrome and Edge
+function configureChromium(options: chromium.Options, settings: BrowserLaunchSettings): void {
+  if (settings.headless) {
+    options.addArguments('--headless=new');
+  }
+
+  options.addArguments(
+    ...CHROMIUM_ARGUMENTS,
+    `--window-size=${settings.windowSize.width},${settings.windowSize.height}`
+  );
+  options.setUserPreferences(CHROMIUM_PREFERENCES);
+
+  if (settings.device?.mobile) {
+    emulateChromiumDevice(options, settings.device);
+  }
+
+  if (settings.captureLogs) {
+    options.setLoggingPrefs(createLoggingPrefs());
+  }
+
+  if (settings.bidi) {
+    options.enableBidi();
+  }
+}
+
+const chromeProfile: BrowserProfile = {
+  name: 'chrome',
+  createOptions(settings: BrowserLaunchSettings): Capabilities {
+    const options = new chrome.Options();
+    configureChromium(options, settings);
+    return options;
+  },
+  applyTo(builder: Builder, options: Capabilities): void {
+    builder.forBrowser('chrome').setChromeOptions(options as chrome.Options);
+  }
+};
+
+const firefoxProfile: BrowserProfile = {
+  name: 'firefox',
+  createOptions(settings: BrowserLaunchSettings): Capabilities {
+    const options = new firefox.Options();
+
+    if (settings.headless) {
+      options.addArguments('-headless');
+    }
+
+    options.addArguments(
+      `--width=${settings.windowSize.width}`,
+      `--height=${settings.windowSize.height}`
+    );
+    options.setPreference('dom.webnotifications.enabled', false);
+
+    // geckodriver has no log endpoint, console and network events come over BiDi
+    if (settings.captureLogs || settings.bidi) {
+      options.enableBidi();
+    }
+
+    // Firefox has no device emulation, so mobile devices get a touch-enabled window and user agent
+    if (settings.device?.mobile) {
+      options.setPreference('dom.w3c_touch_events.enabled', 1);
+      if (settings.device.userAgent) {
+        options.setPreference('general.useragent.override', settings.device.userAgent);
+      }
+    }
+    return options;
+  },
+  applyTo(builder: Builder, options: Capabilities): void {
+    builder.forBrowser('firefox').setFirefoxOptions(options as firefox.Options);
+  },
+  // --width/--height size the outer window; grow it so the viewport matches the device
+  async afterStart(driver: WebDriver, settings: BrowserLaunchSettings): Promise<void> {
+    if (!settings.device) return;
+
+    const [chromeWidth, chromeHeight] = await driver.executeScript(
+      'return [window.outerWidth - window.innerWidth, window.outerHeight - window.innerHeight];'
+    ) as [number, number];
+    await driver.manage().window().setRect({
+      width: settings.device.width + chromeWidth,
+      height: settings.device.height + chromeHeight
+    });
+  }
+};
+
+// Microsoft Edge through msedgedriver; MSEDGEDRIVER_PATH points at a specific driver binary
+const edgeProfile: BrowserProfile = {
+  name: 'edge',
+  createOptions(settings: BrowserLaunchSettings): Capabilities {
+    const options = new edge.Options();
+    configureChromium(options, settings);
+    if (settings.captureLogs) {
+      options.set('ms:loggingPrefs', createLoggingPrefs().toJSON());
+    }
+    return options;
+  },
+  applyTo(builder: Builder, options: Capabilities): void {
+    builder.forBrowser('MicrosoftEdge').setEdgeOptions(options as edge.Options);
+
+    if (process.env.MSEDGEDRIVER_PATH) {
+      builder.setEdgeService(new edge.ServiceBuilder(process.env.MSEDGEDRIVER_PATH));
+    }
+  }
+};
+
+// Safari has no headless mode or window-size flags, so the window is sized after start
+const safariProfile: BrowserProfile = {
+  name: 'safari',
+  createOptions(settings: BrowserLaunchSettings): Capabilities {
+    if (settings.headless) {
+      console.warn('Safari does not support headless mode, starting a visible window');
+    }
+    if (settings.bidi) {
+      console.warn('Safari does not support WebDriver BiDi, page errors are not recorded');
+    }
+    return new safari.Options();
+  },
+  applyTo(builder: Builder, options: Capabilities): void {
+    builder.forBrowser('safari').setSafariOptions(options as safari.Options);
+  },
+  async afterStart(driver: WebDriver, settings: BrowserLaunchSettings): Promise<void> {
+    await driver.manage().window().setRect(settings.windowSize);
+  }
+};
+
+export const builtInBrowserProfiles: BrowserProfile[] = [
+  chromeProfile,
+  firefoxProfile,
+  edgeProfile,
+  safariProfile
+];
+
+// Launch arguments, user-data-dir and preferences for Chrome and Edge
+function applyChromiumCustomizations(options: chromium.Options, custom: BrowserProfileConfig): void {
+  const args = [...(custom.arguments || [])];
+  if (custom.userDataDir) {
+    args.push(`--user-data-dir=${custom.userDataDir}`);
+  }
+  if (custom.preferences) {
+    options.setUserPreferences({ ...CHROMIUM_PREFERENCES, ...custom.preferences });
+  }
+  options.addArguments(...args);
+}
+
+// Launch arguments, profile directory and about:config preferences for Firefox
+function applyFirefoxCustomizations(options: firefox.Options, custom: BrowserProfileConfig): void {
+  const args = [...(custom.arguments || [])];
+  if (custom.userDataDir) {
+    args.push('-profile', custom.userDataDir);
+  }
+  for (const [key, value] of Object.entries(custom.preferences || {})) {
+    options.setPreference(key, value);
+  }
+  options.addArguments(...args);
+}
+
+/**
+ * Apply a custom profile's flags, preferences, proxy and capabilities to browser options
+ * @param name - Custom profile name, used in errors
+ * @param options - Options built by the base profile
+ * @param custom - Custom profile settings from config
+ */
+function applyCustomizations(name: string, options: Capabilities, custom: BrowserProfileConfig): void {
+  if (options instanceof chromium.Options) {
+    applyChromiumCustomizations(options, custom);
+  } else if (options instanceof firefox.Options) {
+    applyFirefoxCustomizations(options, custom);
+  } else if (custom.arguments?.length || custom.userDataDir || custom.preferences) {
+    throw new Error(
+      `Browser profile '${name}': arguments, userDataDir and preferences are not supported for '${custom.extends}'`
+    );
+  }
+
+  if (custom.proxy) {
+    options.setProxy({ proxyType: 'manual', httpProxy: custom.proxy, sslProxy: custom.proxy });
+  }
+
+  for (const [key, value] of Object.entries(custom.capabilities || {})) {
+    options.set(key, value);
+  }
+}
+
+/**
+ * Create a profile that extends another profile with custom settings
+ * @param name - Name to register the profile under
+ * @param base - Profile being extended
+ * @param custom - Custom profile settings from config
+ * @returns Browser profile
+ */
+export function createCustomBrowserProfile(
+  name: string,
+  base: BrowserProfile,
+  custom: BrowserProfileConfig
+): BrowserProfile {
+  return {
+    name,
+    createOptions(settings: BrowserLaunchSettings): Capabilities {
+      const options = base.createOptions(settings);
+      applyCustomizations(name, options, custom);
+      return options;
+    },
+    applyTo: (builder, options) => base.applyTo(builder, options),
+    afterStart: base.afterStart?.bind(base)
+  };
+}
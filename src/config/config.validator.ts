@@ -0,0 +1,395 @@
+import type { BrowserProfileConfig, LoginMode, PerformanceBudget, PerformanceMetric, RemoteConfig, ReportFormat, TestConfig, VideoMode } from '../types/index.js';
+
+import { BUILT_IN_BROWSER_PROFILES } from './browser.profiles.js';
+import { DEVICE_PROFILES } from './device.profiles.js';
+import { NETWORK_PROFILES } from './network.profiles.js';
+
+// Keyword for running against the bundled local SauceDemo server
+export const LOCAL_BASE_URL = 'local';
+
+const REPORT_FORMATS: ReportFormat[] = ['html', 'json', 'junit'];
+
+const VIDEO_MODES: VideoMode[] = ['off', 'screenshots', 'ffmpeg'];
+
+const LOGIN_MODES: LoginMode[] = ['ui', 'session'];
+
+const PERFORMANCE_METRICS: PerformanceMetric[] = ['ttfb', 'domContentLoaded', 'load', 'lcp'];
+
+// Addresses only the machine running the tests can open
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host.startsWith('127.') || host === '::1' || host === '[::1]';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `'${value}'` : JSON.stringify(value);
+}
+
+/**
+ * Configuration validator
+ * Checks merged configuration layers against the TestConfig shape
+ * and collects every problem into a single readable error
+ */
+class ConfigValidator {
+  private errors: string[] = [];
+  private raw: Record<string, unknown> = {};
+
+  /**
+   * Validate raw configuration and build a TestConfig
+   * @param raw - Merged configuration layers
+   * @param source - Description of where the layers came from, used in the error
+   * @returns Validated configuration
+   * @throws Error listing every invalid value
+   */
+  public validate(raw: Record<string, unknown>, source: string): TestConfig {
+    this.errors = [];
+    this.raw = raw;
+
+    const baseUrl = this.readBaseUrl('baseUrl');
+    const useLocalServer = baseUrl === LOCAL_BASE_URL;
+    const browserProfiles = this.readBrowserProfiles('browserProfiles');
+
+    const config: TestConfig = {
+      baseUrl: useLocalServer ? '' : baseUrl,
+      localServer: {
+        enabled: useLocalServer,
+        port: this.readInteger('localServer.port', 0, 65535),
+        ...this.readLocalServerHosts('localServer')
+      },
+      browser: {
+        name: this.readEnum('browser.name', [...BUILT_IN_BROWSER_PROFILES, ...Object.keys(browserProfiles)]),
+        headless: this.readBoolean('browser.headless'),
+        windowSize: {
+          width: this.readInteger('browser.windowSize.width', 1),
+          height: this.readInteger('browser.windowSize.height', 1)
+        },
+        device: this.readOptionalEnum('browser.device', Object.keys(DEVICE_PROFILES)),
+        network: this.readOptionalEnum('browser.network', Object.keys(NETWORK_PROFILES)),
+        remote: this.readRemote('browser.remote')
+      },
+      browserProfiles,
+      timeout: {
+        implicit: this.readInteger('timeout.implicit', 0),
+        explicit: this.readInteger('timeout.explicit', 0),
+        pageLoad: this.readInteger('timeout.pageLoad', 0)
+      },
+      interactions: {
+        pollInterval: this.readInteger('interactions.pollInterval', 1),
+        retryableErrors: this.readStringArray('interactions.retryableErrors')
+      },
+      driverPool: {
+        maxConcurrency: this.readInteger('driverPool.maxConcurrency', 1),
+        reuseSessions: this.readBoolean('driverPool.reuseSessions'),
+        acquireTimeout: this.readInteger('driverPool.acquireTimeout', 0)
+      },
+      retries: {
+        default: this.readInteger('retries.default', 0),
+        suites: this.readIntegerRecord('retries.suites', 0),
+        tests: this.readIntegerRecord('retries.tests', 0)
+      },
+      login: {
+        mode: this.readEnum('login.mode', LOGIN_MODES),
+        suites: this.readEnumRecord('login.suites', LOGIN_MODES)
+      },
+      reporting: {
+        formats: this.readEnumArray('reporting.formats', REPORT_FORMATS),
+        historySize: this.readInteger('reporting.historySize', 0),
+        historyMaxRuns: this.readInteger('reporting.historyMaxRuns', 1)
+      },
+      screenshots: {
+        onFailure: this.readBoolean('screenshots.onFailure'),
+        onSuccess: this.readBoolean('screenshots.onSuccess'),
+        path: this.readString('screenshots.path'),
+        browserLogs: this.readBoolean('screenshots.browserLogs')
+      },
+      pageErrors: {
+        enabled: this.readBoolean('pageErrors.enabled'),
+        failTests: this.readBoolean('pageErrors.failTests'),
+        allowlist: this.readPatternArray('pageErrors.allowlist'),
+        settleTime: this.readInteger('pageErrors.settleTime', 0)
+      },
+      video: {
+        mode: this.readEnum('video.mode', VIDEO_MODES),
+        keep: this.readEnum('video.keep', ['failed', 'all']),
+        frameInterval: this.readInteger('video.frameInterval', 100),
+        ffmpegPath: this.readString('video.ffmpegPath')
+      },
+      visual: {
+        baselineDir: this.readString('visual.baselineDir'),
+        threshold: this.readNumber('visual.threshold', 0, 1),
+        maxDiffRatio: this.readNumber('visual.maxDiffRatio', 0, 1),
+        updateBaselines: this.readBoolean('visual.updateBaselines')
+      },
+      accessibility: {
+        tags: this.readStringArray('accessibility.tags'),
+        disableRules: this.readStringArray('accessibility.disableRules')
+      },
+      performance: {
+        enabled: this.readBoolean('performance.enabled'),
+        budgets: this.readPerformanceBudgets('performance.budgets')
+      }
+    };
+
+    if (useLocalServer) {
+      this.checkLocalServerReachable(config.localServer.advertisedHost, config.browser.remote);
+    }
+
+    if (this.errors.length > 0) {
+      throw new Error(
+        `Invalid test configuration (${source}):\n${this.errors.map(e => `  - ${e}`).join('\n')}`
+      );
+    }
+
+    return config;
+  }
+
+  // Look up a dotted path in the raw configuration
+  private get(path: string): unknown {
+    return path.split('.').reduce<unknown>(
+      (node, key) => (isRecord(node) ? node[key] : undefined),
+      this.raw
+    );
+  }
+
+  private readString(path: string): string {
+    const value = this.get(path);
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.errors.push(`${path}: expected a non-empty string, got ${describe(value)}`);
+      return '';
+    }
+    return value;
+  }
+
+  private readOptionalString(path: string): string | undefined {
+    const value = this.get(path);
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    return this.readString(path);
+  }
+
+  private readBoolean(path: string): boolean {
+    const value = this.get(path);
+    if (typeof value !== 'boolean') {
+      this.errors.push(`${path}: expected true or false, got ${describe(value)}`);
+      return false;
+    }
+    return value;
+  }
+
+  private readInteger(path: string, min: number, max: number = Number.MAX_SAFE_INTEGER): number {
+    const value = this.get(path);
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      const range = max === Number.MAX_SAFE_INTEGER ? `>= ${min}` : `between ${min} and ${max}`;
+      this.errors.push(`${path}: expected an integer ${range}, got ${describe(value)}`);
+      return min;
+    }
+    return value;
+  }
+
+  private readNumber(path: string, min: number, max: number): number {
+    const value = this.get(path);
+    if (typeof value !== 'number' || Number.isNaN(value) || value < min || value > max) {
+      this.errors.push(`${path}: expected a number between ${min} and ${max}, got ${describe(value)}`);
+      return min;
+    }
+    return value;
+  }
+
+  private readEnum<T extends string>(path: string, allowed: T[]): T {
+    const value = this.get(path);
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+      this.errors.push(`${path}: unknown value ${describe(value)}, supported: ${allowed.join(', ')}`);
+      return allowed[0];
+    }
+    return value as T;
+  }
+
+  private readOptionalEnum<T extends string>(path: string, allowed: T[]): T | undefined {
+    const value = this.get(path);
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    return this.readEnum(path, allowed);
+  }
+
+  private readUrl(path: string): string {
+    const value = this.readString(path);
+    if (value && !/^https?:\/\/[^\s]+$/.test(value)) {
+      this.errors.push(`${path}: expected an http(s) URL, got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  private readBaseUrl(path: string): string {
+    return this.get(path) === LOCAL_BASE_URL ? LOCAL_BASE_URL : this.readUrl(path);
+  }
+
+  private readStringArray(path: string): string[] {
+    const value = this.get(path);
+    if (value === undefined) {
+      return [];
+    }
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      this.errors.push(`${path}: expected a list of strings, got ${describe(value)}`);
+      return [];
+    }
+    return value as string[];
+  }
+
+  private readEnumArray<T extends string>(path: string, allowed: T[]): T[] {
+    const values = this.readStringArray(path);
+    const unknown = values.filter(value => !allowed.includes(value as T));
+    if (unknown.length > 0) {
+      this.errors.push(`${path}: unknown values ${unknown.map(describe).join(', ')}, supported: ${allowed.join(', ')}`);
+    }
+    return values.filter(value => allowed.includes(value as T)) as T[];
+  }
+
+  // List of regular expressions, kept as strings
+  private readPatternArray(path: string): string[] {
+    const patterns = this.readStringArray(path);
+    patterns.forEach((pattern, index) => {
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        this.errors.push(`${path}[${index}]: invalid regular expression ${describe(pattern)}: ${(error as Error).message}`);
+      }
+    });
+    return patterns;
+  }
+
+  private readOptionalRecord(path: string): Record<string, unknown> | undefined {
+    const value = this.get(path);
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!isRecord(value)) {
+      this.errors.push(`${path}: expected an object, got ${describe(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  // Map of names to integers, e.g. retries per suite title
+  private readIntegerRecord(path: string, min: number): Record<string, number> {
+    const record: Record<string, number> = {};
+    for (const key of Object.keys(this.readOptionalRecord(path) || {})) {
+      record[key] = this.readInteger(`${path}.${key}`, min);
+    }
+    return record;
+  }
+
+  // Map of names to enum values, e.g. login mode per suite title
+  private readEnumRecord<T extends string>(path: string, allowed: T[]): Record<string, T> {
+    const record: Record<string, T> = {};
+    for (const key of Object.keys(this.readOptionalRecord(path) || {})) {
+      record[key] = this.readEnum(`${path}.${key}`, allowed);
+    }
+    return record;
+  }
+
+  // Timing budgets per URL path, plus a default for every page
+  private readPerformanceBudgets(path: string): Record<string, PerformanceBudget> {
+    const budgets: Record<string, PerformanceBudget> = {};
+
+    for (const page of Object.keys(this.readOptionalRecord(path) || {})) {
+      const pagePath = `${path}.${page}`;
+      if (page !== 'default' && !page.startsWith('/')) {
+        this.errors.push(`${pagePath}: expected 'default' or a URL path starting with /`);
+        continue;
+      }
+
+      const budget: PerformanceBudget = {};
+      for (const metric of Object.keys(this.readOptionalRecord(pagePath) || {})) {
+        if (!PERFORMANCE_METRICS.includes(metric as PerformanceMetric)) {
+          this.errors.push(`${pagePath}.${metric}: unknown metric, supported: ${PERFORMANCE_METRICS.join(', ')}`);
+          continue;
+        }
+        budget[metric as PerformanceMetric] = this.readInteger(`${pagePath}.${metric}`, 0);
+      }
+      budgets[page] = budget;
+    }
+
+    return budgets;
+  }
+
+  // Custom browser profiles, each extending a built-in profile
+  private readBrowserProfiles(path: string): Record<string, BrowserProfileConfig> {
+    const profiles: Record<string, BrowserProfileConfig> = {};
+
+    for (const name of Object.keys(this.readOptionalRecord(path) || {})) {
+      const profilePath = `${path}.${name}`;
+      if (BUILT_IN_BROWSER_PROFILES.includes(name)) {
+        this.errors.push(`${profilePath}: '${name}' is a built-in profile and cannot be redefined`);
+        continue;
+      }
+
+      const preferences = this.readOptionalRecord(`${profilePath}.preferences`);
+      for (const [key, value] of Object.entries(preferences || {})) {
+        if (!['string', 'number', 'boolean'].includes(typeof value)) {
+          this.errors.push(`${profilePath}.preferences.${key}: expected a string, number or boolean, got ${describe(value)}`);
+        }
+      }
+
+      profiles[name] = {
+        extends: this.readEnum(`${profilePath}.extends`, BUILT_IN_BROWSER_PROFILES),
+        arguments: this.readStringArray(`${profilePath}.arguments`),
+        userDataDir: this.readOptionalString(`${profilePath}.userDataDir`),
+        proxy: this.readOptionalString(`${profilePath}.proxy`),
+        preferences: preferences as BrowserProfileConfig['preferences'],
+        capabilities: this.readOptionalRecord(`${profilePath}.capabilities`)
+      };
+    }
+
+    return profiles;
+  }
+
+  // The advertised host defaults to the bind address, or loopback when listening on every interface
+  private readLocalServerHosts(path: string): { host: string; advertisedHost: string } {
+    const host = this.readString(`${path}.host`);
+    const advertisedHost = this.readOptionalString(`${path}.advertisedHost`);
+    return { host, advertisedHost: advertisedHost ?? (['0.0.0.0', '::'].includes(host) ? '127.0.0.1' : host) };
+  }
+
+  // Browsers on a remote server open the local server's URL from their own machine
+  private checkLocalServerReachable(advertisedHost: string, remote: RemoteConfig | undefined): void {
+    if (!remote?.url || !isLoopback(advertisedHost)) return;
+
+    const remoteHost = URL.canParse(remote.url) ? new URL(remote.url).hostname : '';
+    if (!isLoopback(remoteHost)) {
+      this.errors.push(
+        `localServer.advertisedHost: browsers on ${remote.url} cannot open the local server at ${advertisedHost}; ` +
+        'set localServer.host and localServer.advertisedHost to an address the Grid nodes reach, or use a public baseUrl'
+      );
+    }
+  }
+
+  // Remote settings only apply once a server URL is given
+  private readRemote(path: string): RemoteConfig | undefined {
+    const value = this.get(path);
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (!isRecord(value)) {
+      this.errors.push(`${path}: expected an object, got ${describe(value)}`);
+      return undefined;
+    }
+    if (value.url === undefined || value.url === '') {
+      return undefined;
+    }
+
+    return {
+      url: this.readUrl(`${path}.url`),
+      platformName: this.readOptionalString(`${path}.platformName`),
+      browserVersion: this.readOptionalString(`${path}.browserVersion`),
+      sessionName: this.readOptionalString(`${path}.sessionName`),
+      tags: this.readStringArray(`${path}.tags`)
+    };
+  }
+}
+
+export default new ConfigValidator();
@@ -0,0 +1,60 @@
+import type { DeviceProfile } from '../types/index.js';
+
+/**
+ * Device profiles
+ * Named viewports for responsive checks. Mobile devices use Chrome/Edge mobileEmulation
+ * or a Firefox user agent override; desktop sizes only change the window.
+ */
+
+export const DEVICE_PROFILES: Record<string, DeviceProfile> = {
+  'iphone': {
+    name: 'iphone',
+    width: 390,
+    height: 844,
+    pixelRatio: 3,
+    mobile: true,
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 ' +
+      '(KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+  },
+  'pixel': {
+    name: 'pixel',
+    width: 412,
+    height: 915,
+    pixelRatio: 2.625,
+    mobile: true,
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 7) AppleWebKit/537.36 ' +
+      '(KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+  },
+  'ipad': {
+    name: 'ipad',
+    width: 820,
+    height: 1180,
+    pixelRatio: 2,
+    mobile: true,
+    userAgent: 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 ' +
+      '(KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+  },
+  'small-laptop': {
+    name: 'small-laptop',
+    width: 1280,
+    height: 800,
+    pixelRatio: 1,
+    mobile: false
+  }
+};
+
+/**
+ * Look up a device profile by name
+ * @param name - Device profile name, e.g. iphone, pixel, ipad, small-laptop
+ * @returns Device profile
+ * @throws Error listing the supported devices if the name is unknown
+ */
+export function getDeviceProfile(name: string): DeviceProfile {
+  const device = DEVICE_PROFILES[name];
+  if (!device) {
+    throw new Error(
+      `Unknown device profile '${name}'. Supported devices: ${Object.keys(DEVICE_PROFILES).join(', ')}`
+    );
+  }
+  return device;
+}
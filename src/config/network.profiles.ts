@@ -0,0 +1,54 @@
+import type { NetworkProfile } from '../types/index.js';
+
+/**
+ * Network profiles
+ * Named network conditions, matching Chrome DevTools' throttling presets where
+ * there is one. Throughput is in bytes per second, -1 leaves it unthrottled.
+ */
+
+export const NETWORK_PROFILES: Record<string, NetworkProfile> = {
+  '3g': {
+    name: '3g',
+    offline: false,
+    latency: 2000,
+    downloadThroughput: 50000,
+    uploadThroughput: 50000
+  },
+  'slow-4g': {
+    name: 'slow-4g',
+    offline: false,
+    latency: 562.5,
+    downloadThroughput: 180000,
+    uploadThroughput: 84375
+  },
+  'high-latency': {
+    name: 'high-latency',
+    offline: false,
+    latency: 1000,
+    downloadThroughput: -1,
+    uploadThroughput: -1
+  },
+  'offline': {
+    name: 'offline',
+    offline: true,
+    latency: 0,
+    downloadThroughput: -1,
+    uploadThroughput: -1
+  }
+};
+
+/**
+ * Look up a network profile by name
+ * @param name - Network profile name, e.g. 3g, slow-4g, high-latency, offline
+ * @returns Network profile
+ * @throws Error listing the supported profiles if the name is unknown
+ */
+export function getNetworkProfile(name: string): NetworkProfile {
+  const profile = NETWORK_PROFILES[name];
+  if (!profile) {
+    throw new Error(
+      `Unknown network profile '${name}'. Supported profiles: ${Object.keys(NETWORK_PROFILES).join(', ')}`
+    );
+  }
+  return profile;
+}
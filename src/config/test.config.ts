@@ -1,8 +1,71 @@
+import { randomBytes } from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+
 import {config as dotenvConfig} from 'dotenv';
-import type { TestConfig } from '../types/index.js';
+
+import type { LoginMode, TestConfig } from '../types/index.js';
+
+import ConfigValidator from './config.validator.js';
 
 dotenvConfig();
 
+const CONFIG_DIR = path.join(process.cwd(), 'config');
+
+type EnvValueType = 'string' | 'number' | 'boolean' | 'list';
+
+// Environment variables that override configuration file values
+const ENV_OVERRIDES: Array<[string, string, EnvValueType]> = [
+  ['BASE_URL', 'baseUrl', 'string'],
+  ['LOCAL_SERVER_PORT', 'localServer.port', 'number'],
+  ['LOCAL_SERVER_HOST', 'localServer.host', 'string'],
+  ['LOCAL_SERVER_ADVERTISED_HOST', 'localServer.advertisedHost', 'string'],
+  ['BROWSER', 'browser.name', 'string'],
+  ['HEADLESS', 'browser.headless', 'boolean'],
+  ['WINDOW_WIDTH', 'browser.windowSize.width', 'number'],
+  ['WINDOW_HEIGHT', 'browser.windowSize.height', 'number'],
+  ['DEVICE', 'browser.device', 'string'],
+  ['NETWORK_PROFILE', 'browser.network', 'string'],
+  ['SELENIUM_REMOTE_URL', 'browser.remote.url', 'string'],
+  ['SELENIUM_PLATFORM', 'browser.remote.platformName', 'string'],
+  ['SELENIUM_BROWSER_VERSION', 'browser.remote.browserVersion', 'string'],
+  ['SELENIUM_SESSION_NAME', 'browser.remote.sessionName', 'string'],
+  ['SELENIUM_TAGS', 'browser.remote.tags', 'list'],
+  ['IMPLICIT_TIMEOUT', 'timeout.implicit', 'number'],
+  ['EXPLICIT_TIMEOUT', 'timeout.explicit', 'number'],
+  ['PAGE_LOAD_TIMEOUT', 'timeout.pageLoad', 'number'],
+  ['INTERACTION_POLL_INTERVAL', 'interactions.pollInterval', 'number'],
+  ['RETRYABLE_ERRORS', 'interactions.retryableErrors', 'list'],
+  ['MAX_DRIVERS', 'driverPool.maxConcurrency', 'number'],
+  ['REUSE_SESSIONS', 'driverPool.reuseSessions', 'boolean'],
+  ['DRIVER_ACQUIRE_TIMEOUT', 'driverPool.acquireTimeout', 'number'],
+  ['RETRIES', 'retries.default', 'number'],
+  ['LOGIN_MODE', 'login.mode', 'string'],
+  ['REPORT_FORMATS', 'reporting.formats', 'list'],
+  ['REPORT_HISTORY_SIZE', 'reporting.historySize', 'number'],
+  ['REPORT_HISTORY_MAX_RUNS', 'reporting.historyMaxRuns', 'number'],
+  ['SCREENSHOT_ON_FAILURE', 'screenshots.onFailure', 'boolean'],
+  ['SCREENSHOT_ON_SUCCESS', 'screenshots.onSuccess', 'boolean'],
+  ['SCREENSHOT_PATH', 'screenshots.path', 'string'],
+  ['CAPTURE_BROWSER_LOGS', 'screenshots.browserLogs', 'boolean'],
+  ['PAGE_ERRORS', 'pageErrors.enabled', 'boolean'],
+  ['FAIL_ON_PAGE_ERRORS', 'pageErrors.failTests', 'boolean'],
+  ['PAGE_ERROR_SETTLE_TIME', 'pageErrors.settleTime', 'number'],
+  ['VIDEO', 'video.mode', 'string'],
+  ['VIDEO_KEEP', 'video.keep', 'string'],
+  ['VIDEO_FRAME_INTERVAL', 'video.frameInterval', 'number'],
+  ['FFMPEG_PATH', 'video.ffmpegPath', 'string'],
+  ['VISUAL_BASELINE_DIR', 'visual.baselineDir', 'string'],
+  ['UPDATE_BASELINES', 'visual.updateBaselines', 'boolean'],
+  ['A11Y_TAGS', 'accessibility.tags', 'list'],
+  ['A11Y_DISABLE_RULES', 'accessibility.disableRules', 'list'],
+  ['PERFORMANCE', 'performance.enabled', 'boolean']
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 /**
  * Test configuration management
  * Handles environment-based configuration loading
@@ -10,9 +73,23 @@ dotenvConfig();
 class Configuration {
   private static instance: Configuration;
   private config: TestConfig;
+  private runId: string;
 
   private constructor() {
     this.config = this.loadConfig();
+    this.runId = this.resolveRunId();
+  }
+
+  /**
+   * Id shared by everything a test run produces
+   * Taken from TEST_RUN_ID or generated and exported so Mocha parallel workers inherit it
+   */
+  private resolveRunId(): string {
+    if (!process.env.TEST_RUN_ID) {
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      process.env.TEST_RUN_ID = `${timestamp}_${randomBytes(3).toString('hex')}`;
+    }
+    return process.env.TEST_RUN_ID;
   }
 
   /**
@@ -26,33 +103,112 @@ class Configuration {
   }
 
   /**
-   * Load configuration based on environment variables
+   * Load configuration layers and validate the result
+   * config/default.json < config/<TEST_ENV>.json < environment variables
    */
   private loadConfig(): TestConfig {
-    const browser = (process.env.BROWSER || 'chrome') as 'chrome' | 'firefox';
-    const headless = process.env.HEADLESS === 'true' || process.env.CI === 'true';
-    
-    return {
-      baseUrl: process.env.BASE_URL || 'https://www.saucedemo.com',
-      browser: {
-        name: browser,
-        headless: headless,
-        windowSize: {
-          width: 1920,
-          height: 1080
-        }
-      },
-      timeout: {
-        implicit: 10000,
-        explicit: 20000,
-        pageLoad: 30000
-      },
-      screenshots: {
-        onFailure: true,
-        onSuccess: false,
-        path: './reports/screenshots'
+    const testEnv = process.env.TEST_ENV || 'default';
+    const sources = ['config/default.json'];
+    let raw = this.readConfigFile('default');
+
+    if (testEnv !== 'default') {
+      raw = this.mergeConfig(raw, this.readConfigFile(testEnv));
+      sources.push(`config/${testEnv}.json`);
+    }
+
+    raw = this.mergeConfig(raw, this.readEnvOverrides());
+    sources.push('environment');
+
+    return ConfigValidator.validate(raw, sources.join(' < '));
+  }
+
+  /**
+   * Read a named configuration file from the config directory
+   * @param name - Environment name, e.g. default, staging, local
+   * @returns Parsed configuration layer
+   */
+  private readConfigFile(name: string): Record<string, unknown> {
+    const filePath = path.join(CONFIG_DIR, `${name}.json`);
+
+    if (!existsSync(filePath)) {
+      const available = existsSync(CONFIG_DIR)
+        ? readdirSync(CONFIG_DIR).filter(file => file.endsWith('.json')).map(file => file.replace(/\.json$/, ''))
+        : [];
+      throw new Error(
+        `Unknown TEST_ENV '${name}': ${filePath} not found. Available environments: ${available.join(', ') || 'none'}`
+      );
+    }
+
+    try {
+      const layer: unknown = JSON.parse(readFileSync(filePath, 'utf-8'));
+      if (!isRecord(layer)) {
+        throw new Error('expected a JSON object');
+      }
+      return layer;
+    } catch (error) {
+      throw new Error(`Failed to read config file ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Build a configuration layer from environment variables
+   * Values that do not parse are passed through so validation can report them
+   */
+  private readEnvOverrides(): Record<string, unknown> {
+    const layer: Record<string, unknown> = {};
+
+    for (const [variable, configPath, type] of ENV_OVERRIDES) {
+      const value = process.env[variable];
+      if (value === undefined || value === '') {
+        continue;
+      }
+      this.setPath(layer, configPath, this.parseEnvValue(value, type));
+    }
+
+    if (process.env.CI === 'true') {
+      this.setPath(layer, 'browser.headless', true);
+    }
+
+    return layer;
+  }
+
+  private parseEnvValue(value: string, type: EnvValueType): unknown {
+    switch (type) {
+      case 'boolean':
+        return value === 'true' ? true : value === 'false' ? false : value;
+      case 'number':
+        return /^-?\d+$/.test(value.trim()) ? Number(value) : value;
+      case 'list':
+        return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+      case 'string':
+        return value;
+    }
+  }
+
+  // Set a dotted path on a configuration layer, creating parents as needed
+  private setPath(target: Record<string, unknown>, configPath: string, value: unknown): void {
+    const keys = configPath.split('.');
+    let node = target;
+    for (const key of keys.slice(0, -1)) {
+      if (!isRecord(node[key])) {
+        node[key] = {};
       }
-    };
+      node = node[key] as Record<string, unknown>;
+    }
+    node[keys[keys.length - 1]] = value;
+  }
+
+  // Deep merge two configuration layers, the override wins
+  private mergeConfig(
+    base: Record<string, unknown>,
+    override: Record<string, unknown>
+  ): Record<string, unknown> {
+    const merged: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+      const current = merged[key];
+      merged[key] = isRecord(current) && isRecord(value) ? this.mergeConfig(current, value) : value;
+    }
+    return merged;
   }
 
   /**
@@ -74,16 +230,89 @@ class Configuration {
     return this.config.timeout;
   }
 
+  // Get retry settings for BasePage interactions
+  public getInteractionConfig(): TestConfig['interactions'] {
+    return this.config.interactions;
+  }
+
+  // Get driver pool configuration
+  public getDriverPoolConfig(): TestConfig['driverPool'] {
+    return this.config.driverPool;
+  }
+
+  /**
+   * Get the number of retries for a test
+   * A test entry wins over its suite's entry, which wins over the default
+   * @param suiteName - Title of the test's suite
+   * @param testName - Title of the test
+   */
+  public getRetries(suiteName: string, testName: string): number {
+    const retries = this.config.retries;
+    return retries.tests[testName] ?? retries.suites[suiteName] ?? retries.default;
+  }
+
+  /**
+   * Get how a suite logs in
+   * The suite's entry wins over the default
+   * @param suiteName - Title of the suite
+   */
+  public getLoginMode(suiteName: string): LoginMode {
+    return this.config.login.suites[suiteName] ?? this.config.login.mode;
+  }
+
+  // Get reporting configuration
+  public getReportingConfig(): TestConfig['reporting'] {
+    return this.config.reporting;
+  }
+
+  // Get page error monitoring configuration
+  public getPageErrorsConfig(): TestConfig['pageErrors'] {
+    return this.config.pageErrors;
+  }
+
+  // Get video recording configuration
+  public getVideoConfig(): TestConfig['video'] {
+    return this.config.video;
+  }
+
+  // Get visual comparison configuration
+  public getVisualConfig(): TestConfig['visual'] {
+    return this.config.visual;
+  }
+
+  // Get accessibility audit configuration
+  public getAccessibilityConfig(): TestConfig['accessibility'] {
+    return this.config.accessibility;
+  }
+
+  // Get performance timing configuration
+  public getPerformanceConfig(): TestConfig['performance'] {
+    return this.config.performance;
+  }
+
   // Get screenshot path
   public getScreenshotPath(): string {
     return this.config.screenshots.path;
   }
 
+  // Get id of the current test run
+  public getRunId(): string {
+    return this.runId;
+  }
+
   // Get base URL
   public getBaseUrl(): string {
+    if (!this.config.baseUrl) {
+      throw new Error('Base URL not set. The local SauceDemo server is started from the root hooks in tests/hooks.ts.');
+    }
     return this.config.baseUrl;
   }
 
+  // Point the suite at a base URL resolved at runtime, e.g. the local server
+  public setBaseUrl(baseUrl: string): void {
+    this.config.baseUrl = baseUrl;
+  }
+
 }
 
 export default Configuration.getInstance();
\ No newline at end of file
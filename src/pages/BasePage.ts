@@ -1,6 +1,14 @@
 import { WebDriver, By, until, WebElement } from 'selenium-webdriver';
 
+import HeaderComponent from '../components/HeaderComponent.js';
 import config from '../config/test.config.js';
+import type { AccessibilityAudit, AccessibilityAuditOptions, PerformanceTimings, Region, SnapshotOptions } from '../types/index.js';
+import AccessibilityAuditor from '../utils/AccessibilityAuditor.js';
+import Locator from '../utils/Locator.js';
+import LocatorHealer from '../utils/LocatorHealer.js';
+import PageErrorMonitor from '../utils/PageErrorMonitor.js';
+import PerformanceMonitor from '../utils/PerformanceMonitor.js';
+import ScreenshotUtils from '../utils/ScreenshotUtils.js';
 
 /**
  * Base Page class containing common web interactions
@@ -9,6 +17,7 @@ import config from '../config/test.config.js';
 export default class BasePage {
   protected driver: WebDriver;
   protected timeout: number;
+  private readonly primaryHeader: By = By.css('.primary_header');
 
   constructor(driver: WebDriver) {
     this.driver = driver;
@@ -17,13 +26,29 @@ export default class BasePage {
 
   // Navigate to a specific URL
   public async navigateTo(url: string): Promise<void> {
-    await this.driver.get(url);
+    await this.measureNavigation('navigateTo', () => this.driver.get(url));
   }
 
-  // Find element with explicit wait
-  protected async findElement(locator: By, timeout?: number): Promise<WebElement> {
+  /**
+   * Run an action that may load a new document, e.g. a link click, and record the
+   * timings of that document against the performance budgets
+   * @param action - Action name shown in the report, prefixed with the page object name
+   * @param transition - The action itself
+   */
+  protected async measureNavigation<T>(action: string, transition: () => Promise<T>): Promise<T> {
+    const previousOrigin = await PerformanceMonitor.getTimeOrigin(this.driver);
+    const result = await transition();
+    await PerformanceMonitor.record(this.driver, `${this.constructor.name}.${action}`, previousOrigin);
+    return result;
+  }
+
+  // Find element with explicit wait, through the fallbacks of a Locator if its primary finds nothing
+  protected async findElement(locator: By | Locator, timeout?: number): Promise<WebElement> {
     const waitTime = timeout || this.timeout;
     try {
+      if (locator instanceof Locator) {
+        return await LocatorHealer.find(this.driver, locator, waitTime, this.constructor.name);
+      }
       return await this.driver.wait(
         until.elementLocated(locator),
         waitTime,
@@ -55,25 +80,66 @@ export default class BasePage {
   }
 
   // Click element with wait
-  protected async clickElement(locator: By, timeout?: number): Promise<void> {
+  protected async clickElement(locator: By | Locator, timeout?: number): Promise<void> {
     try {
-      const element = await this.findElement(locator, timeout);
-      await this.driver.wait(until.elementIsVisible(element), timeout || this.timeout);
-      await this.driver.wait(until.elementIsEnabled(element), timeout || this.timeout);
-      await element.click();
+      await this.retryInteraction('clickElement', locator, async remaining => {
+        const element = await this.findElement(locator, remaining);
+        await this.driver.wait(until.elementIsVisible(element), remaining);
+        await this.driver.wait(until.elementIsEnabled(element), remaining);
+        await element.click();
+      }, timeout);
     } catch (error) {
       throw new Error(`Failed to click element ${locator.toString()}: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Run an interaction that locates its element itself, and run it again while it fails
+   * with one of interactions.retryableErrors, e.g. after a React re-render replaced the element
+   * @param action - Action name for the retry log, e.g. clickElement
+   * @param locator - Element the interaction works on, for the retry log
+   * @param interaction - Locates the element and acts on it, waiting at most the time left it is given
+   * @param timeout - Time to keep retrying, the explicit timeout by default
+   */
+  protected async retryInteraction<T>(
+    action: string,
+    locator: By | Locator,
+    interaction: (remaining: number) => Promise<T>,
+    timeout?: number
+  ): Promise<T> {
+    const { pollInterval, retryableErrors } = config.getInteractionConfig();
+    const deadline = Date.now() + (timeout || this.timeout);
+    // Names of the errors retried on, one per retry
+    const retriedOn: string[] = [];
+    const logRetries = (outcome: string): void => {
+      if (retriedOn.length === 0) return;
+      const count = `${retriedOn.length} ${retriedOn.length === 1 ? 'retry' : 'retries'}`;
+      console.log(`${this.constructor.name}.${action} on ${locator.toString()} ${outcome} after ${count} (${[...new Set(retriedOn)].join(', ')})`);
+    };
+
+    for (;;) {
+      try {
+        // At least 1 ms, driver.wait treats a timeout of 0 as no timeout
+        const result = await interaction(Math.max(deadline - Date.now(), 1));
+        logRetries('succeeded');
+        return result;
+      } catch (error) {
+        const name = (error as Error).name;
+        if (!retryableErrors.includes(name) || Date.now() + pollInterval > deadline) {
+          logRetries('failed');
+          throw error;
+        }
+        retriedOn.push(name);
+        await this.driver.sleep(pollInterval);
+      }
+    }
+  }
+
   // Wait for element to be visible
-  protected async waitForElement(locator: By, timeout?: number): Promise<WebElement> {
+  protected async waitForElement(locator: By | Locator, timeout?: number): Promise<WebElement> {
     const waitTime = timeout || this.timeout;
     try {
-      const element = await this.driver.wait(
-        until.elementLocated(locator),
-        waitTime
-      );
+      const element = await this.findElement(locator, waitTime);
       await this.driver.wait(until.elementIsVisible(element), waitTime);
       return element;
     } catch (error) {
@@ -82,27 +148,38 @@ export default class BasePage {
   }
 
   // Type text into element
-  protected async typeText(locator: By, text: string, clearFirst: boolean = true): Promise<void> {
-    try {
-      const element = await this.findElement(locator);
-      await this.driver.wait(until.elementIsVisible(element), this.timeout);
-      
+  protected async typeText(locator: By | Locator, text: string, clearFirst: boolean = true): Promise<void> {
+    const type = async (remaining: number): Promise<void> => {
+      const element = await this.findElement(locator, remaining);
+      await this.driver.wait(until.elementIsVisible(element), remaining);
+
       if (clearFirst) {
         await element.clear();
       }
-      
+
       await element.sendKeys(text);
+    };
+
+    try {
+      // Without the clear, typing again after a partial sendKeys would repeat the text
+      if (clearFirst) {
+        await this.retryInteraction('typeText', locator, type);
+      } else {
+        await type(this.timeout);
+      }
     } catch (error) {
       throw new Error(`Failed to type text into ${locator.toString()}: ${(error as Error).message}`);
     }
   }
 
   // get text from element
-  protected async getElementText(locator: By): Promise<string> {
+  protected async getElementText(locator: By | Locator): Promise<string> {
     try {
-      const element = await this.findElement(locator);
-      await this.driver.wait(until.elementIsVisible(element), this.timeout);
-      return await element.getText();
+      return await this.retryInteraction('getElementText', locator, async remaining => {
+        const element = await this.findElement(locator, remaining);
+        await this.driver.wait(until.elementIsVisible(element), remaining);
+        return await element.getText();
+      });
     } catch (error) {
       throw new Error(`Failed to get text from ${locator.toString()}: ${(error as Error).message}`);
     }
@@ -110,7 +187,7 @@ export default class BasePage {
 
 
   // get attribute from element
-  protected async getElementAttribute(locator: By, attribute: string): Promise<string | null> {
+  protected async getElementAttribute(locator: By | Locator, attribute: string): Promise<string | null> {
     try {
       const element = await this.findElement(locator);
       return await element.getAttribute(attribute);
@@ -120,7 +197,7 @@ export default class BasePage {
   }
 
   // check if an element is displayed
-  protected async isElementDisplayed(locator: By): Promise<boolean> {
+  protected async isElementDisplayed(locator: By | Locator): Promise<boolean> {
     try {
       const element = await this.findElement(locator);
       return await element.isDisplayed();
@@ -130,7 +207,7 @@ export default class BasePage {
   }
 
   //check if an element is displayed
-  protected async isElementEnabled(locator: By): Promise<boolean> {
+  protected async isElementEnabled(locator: By | Locator): Promise<boolean> {
     try {
       const element = await this.findElement(locator);
       return await element.isEnabled();
@@ -163,7 +240,7 @@ export default class BasePage {
   }
 
   // scroll element into view
-  protected async scrollToElement(locator: By): Promise<void> {
+  protected async scrollToElement(locator: By | Locator): Promise<void> {
     try {
       const element = await this.findElement(locator);
       await this.driver.executeScript('arguments[0].scrollIntoView(true);', element);
@@ -173,6 +250,14 @@ export default class BasePage {
     }
   }
 
+  /**
+   * Get the header of a page behind login
+   * @returns Header with cart badge, burger menu and sidebar links
+   */
+  public async header(): Promise<HeaderComponent> {
+    return new HeaderComponent(this.driver, await this.waitForElement(this.primaryHeader));
+  }
+
   // Get page title
   public async getPageTitle(): Promise<string> {
     return await this.driver.getTitle();
@@ -185,9 +270,76 @@ export default class BasePage {
   
   // refresh the current page
   public async refreshPage(): Promise<void> {
-    await this.driver.navigate().refresh();
+    await this.measureNavigation('refreshPage', () => this.driver.navigate().refresh());
     await this.waitForPageLoad();
   }
 
+  /**
+   * Get navigation and paint timings of the current document
+   * @returns TTFB, DOMContentLoaded, load and LCP in ms from the start of the navigation
+   */
+  public async getPerformanceTimings(): Promise<PerformanceTimings> {
+    return await PerformanceMonitor.getTimings(this.driver);
+  }
+
+  /**
+   * Assert that the page threw no uncaught exceptions and got no 4xx/5xx responses
+   * since the current test started; needs pageErrors.enabled
+   * @throws Error listing every recorded page error
+   */
+  public async expectNoPageErrors(): Promise<void> {
+    if (!PageErrorMonitor.isAttached(this.driver)) {
+      throw new Error('Page errors are not recorded for this session. Set pageErrors.enabled or PAGE_ERRORS=true.');
+    }
+    await PageErrorMonitor.expectNoPageErrors(this.driver);
+  }
+
+  /**
+   * Run an axe-core accessibility audit on the current page
+   * The audit is listed under this page object in the HTML report
+   * @param options - Parts of the page and rules to audit, rules default to the accessibility config
+   * @returns Violations with their impact, plus pass and incomplete counts
+   */
+  public async auditAccessibility(options: AccessibilityAuditOptions = {}): Promise<AccessibilityAudit> {
+    return await AccessibilityAuditor.audit(this.driver, this.constructor.name, options);
+  }
+
+  /**
+   * Assert that the visible page matches its baseline image
+   * @param name - Snapshot name, unique per browser and viewport width
+   * @param options - Thresholds and regions or locators to leave out
+   * @throws Error describing the difference when the page does not match
+   */
+  public async expectPageToMatchSnapshot(name: string, options: SnapshotOptions = {}): Promise<void> {
+    await this.expectSnapshot(name, undefined, options);
+  }
+
+  /**
+   * Assert that an element matches its baseline image
+   * @param locator - Element to capture
+   * @param name - Snapshot name, unique per browser and viewport width
+   * @param options - Thresholds and regions or locators to leave out, regions relative to the element
+   * @throws Error describing the difference when the element does not match
+   */
+  public async expectElementToMatchSnapshot(locator: By, name: string, options: SnapshotOptions = {}): Promise<void> {
+    await this.expectSnapshot(name, await this.waitForElement(locator), options);
+  }
+
+  private async expectSnapshot(name: string, element: WebElement | undefined, options: SnapshotOptions): Promise<void> {
+    const ignore: Array<Region | WebElement> = [];
+    for (const item of options.ignore || []) {
+      if (item instanceof By) {
+        ignore.push(...await this.findElementsSafe(item));
+      } else {
+        ignore.push(item);
+      }
+    }
+
+    const result = await ScreenshotUtils.compareSnapshot(this.driver, name, { ...options, element, ignore });
+    if (result.status === 'mismatched' || result.status === 'missing') {
+      throw new Error(result.message);
+    }
+  }
+
   
 }
\ No newline at end of file
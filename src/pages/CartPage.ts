@@ -1,35 +1,26 @@
 import { WebDriver, By } from 'selenium-webdriver';
 import BasePage from './BasePage.js';
+import CheckoutCompletePage from './CheckoutCompletePage.js';
+import CheckoutInformationPage from './CheckoutInformationPage.js';
+import CheckoutOverviewPage from './CheckoutOverviewPage.js';
+import ProductsPage from './ProductsPage.js';
+import CartRowComponent from '../components/CartRowComponent.js';
+import Locator from '../utils/Locator.js';
 import type { CartItem, CheckoutInfo, OrderSummary } from '../types/index.js';
 
 /**
  * Cart Page Object
- * Represents the shopping cart and checkout pages
+ * Represents the shopping cart; the checkout steps have their own page objects,
+ * the checkout methods here are kept for existing tests and delegate to them
  */
 export default class CartPage extends BasePage {
   private readonly pageTitle: By = By.css('.title');
+  private readonly cartList: By = By.css('.cart_list');
   private readonly cartItems: By = By.css('.cart_item');
-  // private readonly cartItemNames: By = By.css('.inventory_item_name');
-  // private readonly cartItemPrices: By = By.css('.inventory_item_price');
-  // private readonly cartItemDescriptions: By = By.css('.inventory_item_desc');
-  // private readonly removeButtons: By = By.css('button[id^="remove"]');
-  private readonly checkoutButton: By = By.id('checkout');
-  private readonly continueShoppingButton: By = By.id('continue-shopping');
-
-  private readonly firstNameInput: By = By.id('first-name');
-  private readonly lastNameInput: By = By.id('last-name');
-  private readonly postalCodeInput: By = By.id('postal-code');
-  private readonly continueButton: By = By.id('continue');
-  private readonly cancelButton: By = By.id('cancel');
-
-  private readonly subtotalLabel: By = By.css('.summary_subtotal_label');
-  private readonly taxLabel: By = By.css('.summary_tax_label');
-  private readonly totalLabel: By = By.css('.summary_total_label');
-  private readonly finishButton: By = By.id('finish');
-
-  private readonly completeHeader: By = By.css('.complete-header');
-  private readonly completeText: By = By.css('.complete-text');
-  private readonly backHomeButton: By = By.id('back-to-products');
+  private readonly checkoutButton: Locator = new Locator('checkout button', By.id('checkout'))
+    .orDataTest('checkout').orText('Checkout', 'button');
+  private readonly continueShoppingButton: Locator = new Locator('continue shopping button', By.id('continue-shopping'))
+    .orDataTest('continue-shopping').orText('Continue Shopping', 'button');
 
   constructor(driver: WebDriver) {
     super(driver);
@@ -39,36 +30,43 @@ export default class CartPage extends BasePage {
   public async isOnCartPage(): Promise<boolean> {
     try {
       const url = await this.getCurrentUrl();
-      return url.includes('cart.html');
+      return url.includes('cart.html') && await this.isElementDisplayed(this.cartList);
     } catch (error) {
       return false;
     }
   }
 
+  /**
+   * Get the product rows of the cart
+   * @returns Cart row components
+   */
+  public async rows(): Promise<CartRowComponent[]> {
+    const elements = await this.findElementsSafe(this.cartItems);
+    return elements.map(element => new CartRowComponent(this.driver, element));
+  }
+
+  /**
+   * Get the row of a product
+   * @param productName - Name of the product
+   * @returns Cart row component
+   */
+  public async row(productName: string): Promise<CartRowComponent> {
+    for (const row of await this.rows()) {
+      if (await row.getName() === productName) {
+        return row;
+      }
+    }
+    throw new Error(`Product "${productName}" not found in the cart`);
+  }
+
   /**
    * Get all items in cart
    * @returns Array of CartItem objects
    */
   public async getCartItems(): Promise<CartItem[]> {
     const items: CartItem[] = [];
-    const cartElements = await this.findElements(this.cartItems);
-    for (const element of cartElements) {
-      try {
-        const name = await element.findElement(By.css('.inventory_item_name')).getText();
-        const description = await element.findElement(By.css('.inventory_item_desc')).getText();
-        const priceText = await element.findElement(By.css('.inventory_item_price')).getText();
-        const price = parseFloat(priceText.replace('$', ''));
-        const quantityText = await element.findElement(By.css('.cart_quantity')).getText();
-        const quantity = parseInt(quantityText, 10);
-        items.push({
-          name,
-          description,
-          price,
-          quantity
-        });
-      } catch (error) {
-        continue;
-      }
+    for (const row of await this.rows()) {
+      items.push(await row.toCartItem());
     }
     return items;
   }
@@ -82,9 +80,7 @@ export default class CartPage extends BasePage {
  
   public async removeItemFromCart(productName: string): Promise<void> {
     try {
-      const productId = productName.toLowerCase().replace(/\s+/g, '-');
-      const removeButton = By.id(`remove-${productId}`);
-      await this.clickElement(removeButton);
+      await (await this.row(productName)).remove();
     } catch (error) {
       throw new Error(`Failed to remove item "${productName}": ${(error as Error).message}`);
     }
@@ -95,106 +91,92 @@ export default class CartPage extends BasePage {
     return items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
   }
 
-  public async proceedToCheckout(): Promise<void> {
-    await this.clickElement(this.checkoutButton);
+  // Go to the first checkout step
+  public async proceedToCheckout(): Promise<CheckoutInformationPage> {
+    await this.measureNavigation('proceedToCheckout', () => this.clickElement(this.checkoutButton));
+    return new CheckoutInformationPage(this.driver);
   }
 
-  public async continueShopping(): Promise<void> {
-    await this.clickElement(this.continueShoppingButton);
+  public async continueShopping(): Promise<ProductsPage> {
+    await this.measureNavigation('continueShopping', () => this.clickElement(this.continueShoppingButton));
+    return new ProductsPage(this.driver);
   }
 
+  // Same as CheckoutInformationPage.fillCheckoutInformation()
   public async fillCheckoutInformation(checkoutInfo: CheckoutInfo): Promise<void> {
-    await this.typeText(this.firstNameInput, checkoutInfo.firstName);
-    await this.typeText(this.lastNameInput, checkoutInfo.lastName);
-    await this.typeText(this.postalCodeInput, checkoutInfo.postalCode);
+    await new CheckoutInformationPage(this.driver).fillCheckoutInformation(checkoutInfo);
   }
 
-  // Click continue button on checkout info page
+  // Same as CheckoutInformationPage.continueToOverview()
   public async continueToReview(): Promise<void> {
-    await this.clickElement(this.continueButton);
+    await new CheckoutInformationPage(this.driver).continueToOverview();
   }
 
+  // Cancel from either checkout step
   public async cancelCheckout(): Promise<void> {
-    await this.clickElement(this.cancelButton);
+    const overview = new CheckoutOverviewPage(this.driver);
+    if (await overview.isOnCheckoutOverviewPage()) {
+      await overview.cancel();
+    } else {
+      await new CheckoutInformationPage(this.driver).cancel();
+    }
   }
 
-  /**
-   * Get order summary details
-   * @returns OrderSummary object
-   */
+  // Same as CheckoutOverviewPage.getOrderSummary()
   public async getOrderSummary(): Promise<OrderSummary> {
-    const items = await this.getCartItems();
-   
-    const subtotalText = await this.getElementText(this.subtotalLabel);
-    const subtotal = parseFloat(subtotalText.replace(/[^0-9.]/g, ''));
-   
-    const taxText = await this.getElementText(this.taxLabel);
-    const tax = parseFloat(taxText.replace(/[^0-9.]/g, ''));
-   
-    const totalText = await this.getElementText(this.totalLabel);
-    const total = parseFloat(totalText.replace(/[^0-9.]/g, ''));
-    return {
-      items,
-      subtotal,
-      tax,
-      total
-    };
-  }
-
-  // Get subtotal amount
+    return await new CheckoutOverviewPage(this.driver).getOrderSummary();
+  }
+
+  // Same as CheckoutOverviewPage.getSubtotal()
   public async getSubtotal(): Promise<number> {
-    const subtotalText = await this.getElementText(this.subtotalLabel);
-    return parseFloat(subtotalText.replace(/[^0-9.]/g, ''));
+    return await new CheckoutOverviewPage(this.driver).getSubtotal();
   }
 
+  // Same as CheckoutOverviewPage.getTax()
   public async getTax(): Promise<number> {
-    const taxText = await this.getElementText(this.taxLabel);
-    return parseFloat(taxText.replace(/[^0-9.]/g, ''));
+    return await new CheckoutOverviewPage(this.driver).getTax();
   }
 
-  // Get total amount
+  // Same as CheckoutOverviewPage.getTotal()
   public async getTotal(): Promise<number> {
-    const totalText = await this.getElementText(this.totalLabel);
-    return parseFloat(totalText.replace(/[^0-9.]/g, ''));
+    return await new CheckoutOverviewPage(this.driver).getTotal();
   }
 
+  // Same as CheckoutOverviewPage.finish()
   public async finishOrder(): Promise<void> {
-    await this.clickElement(this.finishButton);
+    await new CheckoutOverviewPage(this.driver).finish();
   }
 
   /**
-   * Complete entire checkout process
+   * Complete entire checkout process from the cart
    * @param checkoutInfo - Checkout information
+   * @returns Checkout complete page
    */
-  public async completeCheckout(checkoutInfo: CheckoutInfo): Promise<void> {
-    await this.proceedToCheckout();
-    await this.fillCheckoutInformation(checkoutInfo);
-    await this.continueToReview();
-    await this.finishOrder();
+  public async completeCheckout(checkoutInfo: CheckoutInfo): Promise<CheckoutCompletePage> {
+    const informationPage = await this.proceedToCheckout();
+    await informationPage.fillCheckoutInformation(checkoutInfo);
+    const overviewPage = await informationPage.continueToOverview();
+    return await overviewPage.finish();
   }
 
-  // Check if order is complete
+  // Same as CheckoutCompletePage.isOrderComplete()
   public async isOrderComplete(): Promise<boolean> {
-    try {
-      return await this.isElementDisplayed(this.completeHeader);
-    } catch (error) {
-      return false;
-    }
+    return await new CheckoutCompletePage(this.driver).isOrderComplete();
   }
 
-  // Get order completion message
+  // Same as CheckoutCompletePage.getCompletionMessage()
   public async getCompletionMessage(): Promise<string> {
-    return await this.getElementText(this.completeHeader);
+    return await new CheckoutCompletePage(this.driver).getCompletionMessage();
   }
 
-  // Get order completion details
+  // Same as CheckoutCompletePage.getCompletionDetails()
   public async getCompletionDetails(): Promise<string> {
-    return await this.getElementText(this.completeText);
+    return await new CheckoutCompletePage(this.driver).getCompletionDetails();
   }
 
-  // Return to products page from completion
+  // Same as CheckoutCompletePage.backToProducts()
   public async backToProducts(): Promise<void> {
-    await this.clickElement(this.backHomeButton);
+    await new CheckoutCompletePage(this.driver).backToProducts();
   }
 
   //Check if the checkout button is displayed
@@ -212,20 +194,8 @@ export default class CartPage extends BasePage {
     return await this.getElementText(this.pageTitle);
   }
 
-  /**
-   * Verify order calculations
-   * @returns True if calculations are correct
-   */
+  // Same as CheckoutOverviewPage.verifyOrderCalculations()
   public async verifyOrderCalculations(): Promise<boolean> {
-    const summary = await this.getOrderSummary();
-    const expectedSubtotal = summary.items.reduce((sum, item) =>
-      sum + (item.price * item.quantity), 0
-    );
-   
-    const calculatedTotal = summary.subtotal + summary.tax;
-    const subtotalMatch = Math.abs(summary.subtotal - expectedSubtotal) < 0.01;
-    const totalMatch = Math.abs(summary.total - calculatedTotal) < 0.01;
-   
-    return subtotalMatch && totalMatch;
+    return await new CheckoutOverviewPage(this.driver).verifyOrderCalculations();
   }
 }
\ No newline at end of file
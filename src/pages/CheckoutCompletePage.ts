@@ -0,0 +1,58 @@
+import { WebDriver, By } from 'selenium-webdriver';
+
+import BasePage from './BasePage.js';
+import ProductsPage from './ProductsPage.js';
+
+/**
+ * Checkout Complete Page Object
+ * Represents the confirmation shown after an order is placed
+ */
+export default class CheckoutCompletePage extends BasePage {
+  private readonly pageTitle: By = By.css('.title');
+  private readonly completeHeader: By = By.css('.complete-header');
+  private readonly completeText: By = By.css('.complete-text');
+  private readonly backHomeButton: By = By.id('back-to-products');
+
+  constructor(driver: WebDriver) {
+    super(driver);
+  }
+
+  // Check if user is on the checkout complete page
+  public async isOnCheckoutCompletePage(): Promise<boolean> {
+    try {
+      const url = await this.getCurrentUrl();
+      return url.includes('checkout-complete.html') && await this.isElementDisplayed(this.completeHeader);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  public async getPageTitleText(): Promise<string> {
+    return await this.getElementText(this.pageTitle);
+  }
+
+  // Check if order is complete
+  public async isOrderComplete(): Promise<boolean> {
+    try {
+      return await this.isElementDisplayed(this.completeHeader);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Get order completion message
+  public async getCompletionMessage(): Promise<string> {
+    return await this.getElementText(this.completeHeader);
+  }
+
+  // Get order completion details
+  public async getCompletionDetails(): Promise<string> {
+    return await this.getElementText(this.completeText);
+  }
+
+  // Return to products page
+  public async backToProducts(): Promise<ProductsPage> {
+    await this.measureNavigation('backToProducts', () => this.clickElement(this.backHomeButton));
+    return new ProductsPage(this.driver);
+  }
+}
@@ -0,0 +1,101 @@
+import { WebDriver, By } from 'selenium-webdriver';
+
+import BasePage from './BasePage.js';
+import CartPage from './CartPage.js';
+import CheckoutOverviewPage from './CheckoutOverviewPage.js';
+import Locator from '../utils/Locator.js';
+import type { CheckoutField, CheckoutInfo } from '../types/index.js';
+
+/**
+ * Checkout Information Page Object
+ * Represents the first checkout step, where the buyer enters name and postal code
+ */
+export default class CheckoutInformationPage extends BasePage {
+  private readonly pageTitle: By = By.css('.title');
+  private readonly firstNameInput: By = By.id('first-name');
+  private readonly lastNameInput: By = By.id('last-name');
+  private readonly postalCodeInput: By = By.id('postal-code');
+  private readonly continueButton: Locator = new Locator('continue button', By.id('continue'))
+    .orDataTest('continue').orCss('input[type="submit"]');
+  private readonly cancelButton: Locator = new Locator('cancel button', By.id('cancel'))
+    .orDataTest('cancel').orText('Cancel', 'button');
+  private readonly errorMessage: By = By.css('[data-test="error"]');
+  private readonly errorButton: By = By.css('.error-button');
+
+  constructor(driver: WebDriver) {
+    super(driver);
+  }
+
+  // Check if user is on the checkout information page
+  public async isOnCheckoutInformationPage(): Promise<boolean> {
+    try {
+      const url = await this.getCurrentUrl();
+      return url.includes('checkout-step-one.html') && await this.isElementDisplayed(this.firstNameInput);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  public async getPageTitleText(): Promise<string> {
+    return await this.getElementText(this.pageTitle);
+  }
+
+  /**
+   * Fill in the checkout form
+   * @param checkoutInfo - First name, last name and postal code
+   */
+  public async fillCheckoutInformation(checkoutInfo: CheckoutInfo): Promise<void> {
+    await this.typeText(this.firstNameInput, checkoutInfo.firstName);
+    await this.typeText(this.lastNameInput, checkoutInfo.lastName);
+    await this.typeText(this.postalCodeInput, checkoutInfo.postalCode);
+  }
+
+  // Get the error banner text, empty when there is no error
+  public async getErrorMessage(): Promise<string> {
+    const errors = await this.findElementsSafe(this.errorMessage);
+    if (errors.length === 0 || !(await errors[0].isDisplayed())) {
+      return '';
+    }
+    return await errors[0].getText();
+  }
+
+  // Check if the error banner is displayed
+  public async isErrorDisplayed(): Promise<boolean> {
+    return (await this.getErrorMessage()) !== '';
+  }
+
+  /**
+   * Check if a form field is highlighted as invalid
+   * @param field - Field of the checkout information
+   */
+  public async isFieldInError(field: CheckoutField): Promise<boolean> {
+    const inputs: Record<CheckoutField, By> = {
+      firstName: this.firstNameInput,
+      lastName: this.lastNameInput,
+      postalCode: this.postalCodeInput
+    };
+    const classes = await this.getElementAttribute(inputs[field], 'class') || '';
+    return classes.split(/\s+/).includes('error');
+  }
+
+  // Dismiss the error banner, which also clears the field highlights
+  public async closeError(): Promise<void> {
+    await this.clickElement(this.errorButton);
+    await this.waitForElementToDisappear(this.errorMessage);
+  }
+
+  /**
+   * Submit the form and go to the overview
+   * @returns Overview page, check isOnCheckoutOverviewPage() when the form may be rejected
+   */
+  public async continueToOverview(): Promise<CheckoutOverviewPage> {
+    await this.measureNavigation('continueToOverview', () => this.clickElement(this.continueButton));
+    return new CheckoutOverviewPage(this.driver);
+  }
+
+  // Cancel checkout and go back to the cart
+  public async cancel(): Promise<CartPage> {
+    await this.measureNavigation('cancel', () => this.clickElement(this.cancelButton));
+    return new CartPage(this.driver);
+  }
+}
@@ -0,0 +1,118 @@
+import { WebDriver, By } from 'selenium-webdriver';
+
+import BasePage from './BasePage.js';
+import CheckoutCompletePage from './CheckoutCompletePage.js';
+import ProductsPage from './ProductsPage.js';
+import CartRowComponent from '../components/CartRowComponent.js';
+import type { CartItem, OrderSummary } from '../types/index.js';
+
+/**
+ * Checkout Overview Page Object
+ * Represents the second checkout step with the ordered items and the price summary
+ */
+export default class CheckoutOverviewPage extends BasePage {
+  private readonly pageTitle: By = By.css('.title');
+  private readonly cartItems: By = By.css('.cart_item');
+  private readonly subtotalLabel: By = By.css('.summary_subtotal_label');
+  private readonly taxLabel: By = By.css('.summary_tax_label');
+  private readonly totalLabel: By = By.css('.summary_total_label');
+  private readonly finishButton: By = By.id('finish');
+  private readonly cancelButton: By = By.id('cancel');
+
+  constructor(driver: WebDriver) {
+    super(driver);
+  }
+
+  // Check if user is on the checkout overview page
+  public async isOnCheckoutOverviewPage(): Promise<boolean> {
+    try {
+      const url = await this.getCurrentUrl();
+      return url.includes('checkout-step-two.html') && await this.isElementDisplayed(this.totalLabel);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  public async getPageTitleText(): Promise<string> {
+    return await this.getElementText(this.pageTitle);
+  }
+
+  /**
+   * Get the ordered product rows
+   * @returns Cart row components, without remove buttons
+   */
+  public async rows(): Promise<CartRowComponent[]> {
+    const elements = await this.findElementsSafe(this.cartItems);
+    return elements.map(element => new CartRowComponent(this.driver, element));
+  }
+
+  // Get all ordered items
+  public async getCartItems(): Promise<CartItem[]> {
+    const items: CartItem[] = [];
+    for (const row of await this.rows()) {
+      items.push(await row.toCartItem());
+    }
+    return items;
+  }
+
+  /**
+   * Get order summary details
+   * @returns OrderSummary object
+   */
+  public async getOrderSummary(): Promise<OrderSummary> {
+    return {
+      items: await this.getCartItems(),
+      subtotal: await this.getSubtotal(),
+      tax: await this.getTax(),
+      total: await this.getTotal()
+    };
+  }
+
+  // Get subtotal amount
+  public async getSubtotal(): Promise<number> {
+    return this.parseAmount(await this.getElementText(this.subtotalLabel));
+  }
+
+  public async getTax(): Promise<number> {
+    return this.parseAmount(await this.getElementText(this.taxLabel));
+  }
+
+  // Get total amount
+  public async getTotal(): Promise<number> {
+    return this.parseAmount(await this.getElementText(this.totalLabel));
+  }
+
+  /**
+   * Verify order calculations
+   * @returns True if the subtotal is the sum of the items and the total is subtotal plus tax
+   */
+  public async verifyOrderCalculations(): Promise<boolean> {
+    const summary = await this.getOrderSummary();
+    const expectedSubtotal = summary.items.reduce((sum, item) =>
+      sum + (item.price * item.quantity), 0
+    );
+
+    const calculatedTotal = summary.subtotal + summary.tax;
+    const subtotalMatch = Math.abs(summary.subtotal - expectedSubtotal) < 0.01;
+    const totalMatch = Math.abs(summary.total - calculatedTotal) < 0.01;
+
+    return subtotalMatch && totalMatch;
+  }
+
+  // Place the order
+  public async finish(): Promise<CheckoutCompletePage> {
+    await this.measureNavigation('finish', () => this.clickElement(this.finishButton));
+    return new CheckoutCompletePage(this.driver);
+  }
+
+  // Cancel checkout and go back to the products page
+  public async cancel(): Promise<ProductsPage> {
+    await this.measureNavigation('cancel', () => this.clickElement(this.cancelButton));
+    return new ProductsPage(this.driver);
+  }
+
+  // Labels read like "Item total: $39.98"
+  private parseAmount(text: string): number {
+    return parseFloat(text.replace(/[^0-9.]/g, ''));
+  }
+}
@@ -2,15 +2,19 @@ import { WebDriver, By } from 'selenium-webdriver';
 
 import BasePage from './BasePage.js';
 import config from '../config/test.config.js';
+import Locator from '../utils/Locator.js';
 
 /**
  * Login Page Object
  * Represents the SauceDemo login page and its interactions
  */
 export default class LoginPage extends BasePage {
-  private readonly usernameInput: By = By.id('user-name');
-  private readonly passwordInput: By = By.id('password');
-  private readonly loginButton: By = By.id('login-button');
+  private readonly usernameInput: Locator = new Locator('username input', By.id('user-name'))
+    .orDataTest('username').orCss('input[name="user-name"]');
+  private readonly passwordInput: Locator = new Locator('password input', By.id('password'))
+    .orDataTest('password').orCss('input[type="password"]');
+  private readonly loginButton: Locator = new Locator('login button', By.id('login-button'))
+    .orDataTest('login-button').orCss('input[type="submit"]');
   private readonly errorMessage: By = By.css('[data-test="error"]');
   private readonly errorButton: By = By.css('.error-button');
   private readonly loginLogo: By = By.css('.login_logo');
@@ -35,7 +39,7 @@ export default class LoginPage extends BasePage {
   public async login(username: string, password: string): Promise<void> {
     await this.enterUsername(username);
     await this.enterPassword(password);
-    await this.clickLoginButton();
+    await this.measureNavigation('login', () => this.clickLoginButton());
   }
 
   // Enter username into input field
@@ -85,7 +89,7 @@ export default class LoginPage extends BasePage {
       const logoDisplayed = await this.isElementDisplayed(this.loginLogo);
       const loginButtonDisplayed = await this.isElementDisplayed(this.loginButton);
       
-      return url.includes('saucedemo.com') && 
+      return url.startsWith(config.getBaseUrl()) && 
              logoDisplayed && 
              loginButtonDisplayed &&
              !url.includes('inventory');
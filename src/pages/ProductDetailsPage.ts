@@ -0,0 +1,113 @@
+import { WebDriver, By } from 'selenium-webdriver';
+
+import BasePage from './BasePage.js';
+import ProductsPage from './ProductsPage.js';
+import config from '../config/test.config.js';
+import type { Product } from '../types/index.js';
+
+/**
+ * Product Details Page Object
+ * Represents the SauceDemo inventory item page (/inventory-item.html?id=N)
+ */
+export default class ProductDetailsPage extends BasePage {
+  private readonly productName: By = By.css('.inventory_details_name');
+  private readonly productDescription: By = By.css('.inventory_details_desc');
+  private readonly productPrice: By = By.css('.inventory_details_price');
+  private readonly productImage: By = By.css('img.inventory_details_img');
+  private readonly addToCartButton: By = By.id('add-to-cart');
+  private readonly removeButton: By = By.id('remove');
+  private readonly backButton: By = By.id('back-to-products');
+
+  constructor(driver: WebDriver) {
+    super(driver);
+  }
+
+  /**
+   * Open the details page of a product directly
+   * @param productId - Product id, as in the id query parameter
+   */
+  public async open(productId: number): Promise<void> {
+    const url = new URL(`/inventory-item.html?id=${productId}`, config.getBaseUrl());
+    await this.navigateTo(url.toString());
+    await this.waitForPageLoad();
+  }
+
+  // Check if user is on the product details page
+  public async isOnProductDetailsPage(): Promise<boolean> {
+    try {
+      const url = await this.getCurrentUrl();
+      return url.includes('inventory-item.html') && await this.isElementDisplayed(this.productName);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Get the product id from the id query parameter, NaN when there is none
+  public async getProductId(): Promise<number> {
+    const url = new URL(await this.getCurrentUrl());
+    return Number(url.searchParams.get('id') ?? NaN);
+  }
+
+  public async getName(): Promise<string> {
+    return await this.getElementText(this.productName);
+  }
+
+  public async getDescription(): Promise<string> {
+    return await this.getElementText(this.productDescription);
+  }
+
+  public async getPriceText(): Promise<string> {
+    return await this.getElementText(this.productPrice);
+  }
+
+  public async getPrice(): Promise<number> {
+    const priceText = await this.getPriceText();
+    return parseFloat(priceText.replace('$', ''));
+  }
+
+  public async getImageSrc(): Promise<string> {
+    return await this.getElementAttribute(this.productImage, 'src') || '';
+  }
+
+  /**
+   * Read the product shown on the page
+   * @returns Product with name, description and price, comparable with ProductsPage.getAllProducts()
+   */
+  public async getProduct(): Promise<Product> {
+    const priceText = await this.getPriceText();
+    return {
+      name: await this.getName(),
+      description: await this.getDescription(),
+      price: parseFloat(priceText.replace('$', '')),
+      priceText
+    };
+  }
+
+  public async addToCart(): Promise<void> {
+    try {
+      await this.clickElement(this.addToCartButton);
+    } catch (error) {
+      throw new Error(`Failed to add product to cart from details page: ${(error as Error).message}`);
+    }
+  }
+
+  public async removeFromCart(): Promise<void> {
+    try {
+      await this.clickElement(this.removeButton);
+    } catch (error) {
+      throw new Error(`Failed to remove product from details page: ${(error as Error).message}`);
+    }
+  }
+
+  // Check if the product is in the cart, its button then reads Remove
+  public async isInCart(): Promise<boolean> {
+    const buttons = await this.findElementsSafe(this.removeButton);
+    return buttons.length > 0 && await buttons[0].isDisplayed();
+  }
+
+  // Go back to the products page
+  public async backToProducts(): Promise<ProductsPage> {
+    await this.measureNavigation('backToProducts', () => this.clickElement(this.backButton));
+    return new ProductsPage(this.driver);
+  }
+}
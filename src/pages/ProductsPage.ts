@@ -1,8 +1,17 @@
 import { WebDriver, By } from 'selenium-webdriver';
+import { Select } from 'selenium-webdriver/lib/select.js';
 
 import BasePage from './BasePage.js';
+import CartPage from './CartPage.js';
+import ProductDetailsPage from './ProductDetailsPage.js';
+import InventoryItemComponent from '../components/InventoryItemComponent.js';
+import CartState from '../utils/CartState.js';
+import Locator from '../utils/Locator.js';
 import { Product, SortOption } from '../types/index.js';
 
+// Errors the emulated mobile select picker throws when an option is clicked
+const MOBILE_PICKER_ERRORS = ['ElementNotInteractableError', 'ElementClickInterceptedError'];
+
 /**
  * Products Page Object
  * Represents the SauceDemo products/inventory page and its interactions
@@ -15,12 +24,8 @@ export default class ProductsPage extends BasePage {
   private readonly productPrices: By = By.css('.inventory_item_price');
   // private readonly addToCartButtons: By = By.css('button[id^="add-to-cart"]');
   // private readonly removeButtons: By = By.css('button[id^="remove"]');
-  private readonly shoppingCart: By = By.css('.shopping_cart_link');
-  private readonly cartBadge: By = By.css('.shopping_cart_badge');
-  private readonly burgerMenu: By = By.id('react-burger-menu-btn');
-  private readonly logoutLink: By = By.id('logout_sidebar_link');
-  private readonly sortDropdown: By = By.css('.product_sort_container');
-  private readonly resetAppLink: By = By.id('reset_sidebar_link');
+  private readonly sortDropdown: Locator = new Locator('sort dropdown', By.css('.product_sort_container'))
+    .orDataTest('product-sort-container').orCss('select');
 
 
   constructor(driver: WebDriver) {
@@ -53,26 +58,49 @@ export default class ProductsPage extends BasePage {
     return products.length;
   }
 
-  // Get all products displayed on the page
-  public async getAllProducts(): Promise<Product[]> {
-    const products: Product[] = [];
-    const productElements = await this.findElements(this.productItems);
-
-    for (const element of productElements) {
-      try {
-        const name = await element.findElement(By.css('.inventory_item_name')).getText();
-        const description = await element.findElement(By.css('.inventory_item_desc')).getText();
-        const priceText = await element.findElement(By.css('.inventory_item_price')).getText();
-        const price = parseFloat(priceText.replace("$", ''));
-
-        products.push({name,description,priceText,price})
+  /**
+   * Get the product cards in display order
+   * @returns Inventory item components
+   */
+  public async items(): Promise<InventoryItemComponent[]> {
+    const elements = await this.findElements(this.productItems);
+    return elements.map(element => new InventoryItemComponent(this.driver, element));
+  }
 
-       
-      } catch (error) {
-        continue;
+  /**
+   * Get the product card of a product
+   * @param productName - Name of the product
+   * @returns Inventory item component
+   */
+  public async item(productName: string): Promise<InventoryItemComponent> {
+    for (const item of await this.items()) {
+      if (await item.getName() === productName) {
+        return item;
       }
     }
+    throw new Error(`Product "${productName}" not found on the products page`);
+  }
 
+  /**
+   * Open the details page of a product through its name
+   * @param productName - Name of the product
+   */
+  public async openProductDetails(productName: string): Promise<ProductDetailsPage> {
+    try {
+      const item = await this.item(productName);
+      await this.measureNavigation('openProductDetails', () => item.openDetails());
+      return new ProductDetailsPage(this.driver);
+    } catch (error) {
+      throw new Error(`Failed to open details of product "${productName}": ${(error as Error).message}`);
+    }
+  }
+
+  // Get all products displayed on the page
+  public async getAllProducts(): Promise<Product[]> {
+    const products: Product[] = [];
+    for (const item of await this.items()) {
+      products.push(await item.toProduct());
+    }
     return products;
   }
 
@@ -114,9 +142,7 @@ export default class ProductsPage extends BasePage {
    */
   public async addProductToCartByName(productName: string): Promise<void> {
     try {
-      const productId = productName.toLowerCase().replace(/\s+/g, '-');
-      const addButton = By.id(`add-to-cart-${productId}`);
-      await this.clickElement(addButton);
+      await (await this.item(productName)).addToCart();
     } catch (error) {
       throw new Error(`Failed to add product "${productName}" to cart: ${(error as Error).message}`);
     }
@@ -124,11 +150,7 @@ export default class ProductsPage extends BasePage {
 
   public async getCartItemCount(): Promise<number> {
     try {
-      if (await this.isElementDisplayed(this.cartBadge)) {
-        const count = await this.getElementText(this.cartBadge);
-        return parseInt(count, 10);
-      }
-      return 0;
+      return await (await this.header()).getCartItemCount();
     } catch (error) {
       return 0;
     }
@@ -142,9 +164,7 @@ export default class ProductsPage extends BasePage {
 
   public async removeProductFromCartByName(productName: string): Promise<void> {
     try {
-      const productId = productName.toLowerCase().replace(/\s+/g, '-');
-      const removeButton = By.id(`remove-${productId}`);
-      await this.clickElement(removeButton);
+      await (await this.item(productName)).removeFromCart();
     } catch (error) {
       throw new Error(`Failed to remove product "${productName}": ${(error as Error).message}`);
     }
@@ -153,9 +173,7 @@ export default class ProductsPage extends BasePage {
   // Check if product is added to cart
   public async isProductInCart(productName: string): Promise<boolean> {
     try {
-      const productId = productName.toLowerCase().replace(/\s+/g, '-');
-      const removeButton = By.id(`remove-${productId}`);
-      return await this.isElementDisplayed(removeButton);
+      return await (await this.item(productName)).isInCart();
     } catch (error) {
       return false;
     }
@@ -164,22 +182,31 @@ export default class ProductsPage extends BasePage {
 
   /**
    * Sort products
+   * Works with the full dropdown and the icon-only one shown on narrow viewports
    * @param sortOption - Sort option (az, za, lohi, hilo)
    */
   public async sortProducts(sortOption: SortOption): Promise<void> {
-    const dropdown = await this.findElement(this.sortDropdown);
-    await dropdown.click();
+    const dropdown = await this.waitForElement(this.sortDropdown);
 
-    const sortMapping: Record<SortOption, string> = {
-      'az': 'az',
-      'za': 'za',
-      'lohi': 'lohi',
-      'hilo': 'hilo'
-    };
+    try {
+      await new Select(dropdown).selectByValue(sortOption);
+    } catch (error) {
+      // Emulated mobile pickers do not always accept option clicks, anything else is a real failure
+      if (!MOBILE_PICKER_ERRORS.includes((error as Error).name) || !(await this.isTouchDevice())) {
+        throw error;
+      }
+      await this.driver.executeScript(
+        "arguments[0].value = arguments[1]; arguments[0].dispatchEvent(new Event('change', { bubbles: true }));",
+        dropdown,
+        sortOption
+      );
+    }
 
-    const optionLocator = By.css(`option[value="${sortMapping[sortOption]}"]`);
-    await this.clickElement(optionLocator);
-    await this.driver.sleep(500);
+    await this.driver.wait(
+      async () => (await dropdown.getAttribute('value')) === sortOption,
+      this.timeout,
+      `Sort option ${sortOption} was not applied`
+    );
   }
 
   // Get current sort option
@@ -204,32 +231,41 @@ export default class ProductsPage extends BasePage {
   }
 
   // Navigate to shopping cart
-  public async goToCart(): Promise<void> {
-    await this.clickElement(this.shoppingCart);
+  public async goToCart(): Promise<CartPage> {
+    const header = await this.header();
+    await this.measureNavigation('goToCart', () => header.openCart());
+    return new CartPage(this.driver);
   }
 
-  // Open burger menu
+  // Open burger menu and wait for the sidebar to show
   public async openMenu(): Promise<void> {
-    await this.clickElement(this.burgerMenu);
-    await this.driver.sleep(500);
+    await (await this.header()).openMenu();
+  }
+
+  // Close burger menu
+  public async closeMenu(): Promise<void> {
+    await (await this.header()).closeMenu();
+  }
+
+  // Check if the burger menu sidebar is open
+  public async isMenuOpen(): Promise<boolean> {
+    return await (await this.header()).isMenuOpen();
   }
 
    // Check if cart badge is displayed
   public async isCartBadgeDisplayed(): Promise<boolean> {
-    return await this.isElementDisplayed(this.cartBadge);
+    return await (await this.header()).isCartBadgeDisplayed();
   }
 
    // Logout from application
   public async logout(): Promise<void> {
-    await this.openMenu();
-    await this.waitForElement(this.logoutLink);
-    await this.clickElement(this.logoutLink);
+    const header = await this.header();
+    await this.measureNavigation('logout', () => header.logout());
   }
 
+  // Empty the cart in localStorage and reload, faster than the Reset App State sidebar link
   public async resetAppState(): Promise<void> {
-    await this.openMenu();
-    await this.waitForElement(this.resetAppLink);
-    await this.clickElement(this.resetAppLink);
+    await CartState.clear(this.driver);
     await this.refreshPage();
   }
 
@@ -242,4 +278,8 @@ export default class ProductsPage extends BasePage {
     }
   }
 
-}
\ No newline at end of file
+  // Check whether the session emulates a touch device, as device profiles do
+  private async isTouchDevice(): Promise<boolean> {
+    return await this.driver.executeScript<boolean>('return navigator.maxTouchPoints > 0;');
+  }
+}
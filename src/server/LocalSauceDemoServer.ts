@@ -0,0 +1,165 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+import { CATALOG, findItemByImage } from '../config/product.catalog.js';
+
+import { CLIENT_SCRIPT } from './clientScript.js';
+import { PageName, renderNotFoundPage, renderPage, renderProductImage, STYLESHEET } from './templates.js';
+import { ACCEPTED_USERNAMES, LOCKED_OUT_USERNAMES, SHARED_PASSWORD } from './users.js';
+
+const PAGE_ROUTES: Record<string, PageName> = {
+  '/': 'login',
+  '/index.html': 'login',
+  '/inventory.html': 'inventory',
+  '/inventory-item.html': 'inventory-item',
+  '/cart.html': 'cart',
+  '/checkout-step-one.html': 'checkout-step-one',
+  '/checkout-step-two.html': 'checkout-step-two',
+  '/checkout-complete.html': 'checkout-complete'
+};
+
+// Pages that performance_glitch_user waits on, like the real site after login
+const GLITCHED_PAGES: PageName[] = ['inventory', 'inventory-item'];
+const PERFORMANCE_GLITCH_USER = 'performance_glitch_user';
+const PERFORMANCE_GLITCH_DELAY = 5000;
+
+/**
+ * Local SauceDemo server
+ * Serves an offline stand-in for www.saucedemo.com so the suite can run without internet
+ */
+class LocalSauceDemoServer {
+  private server: Server | null = null;
+  private url: string | null = null;
+  private readonly clientScript: string;
+
+  constructor() {
+    const sauce = {
+      catalog: CATALOG,
+      acceptedUsernames: ACCEPTED_USERNAMES,
+      lockedOutUsers: LOCKED_OUT_USERNAMES,
+      password: SHARED_PASSWORD
+    };
+    this.clientScript = `var SAUCE = ${JSON.stringify(sauce)};\n${CLIENT_SCRIPT}`;
+  }
+
+  /**
+   * Start the server
+   * @param port - Port to listen on, 0 picks a free port
+   * @param host - Address to listen on, e.g. 0.0.0.0 for Grid nodes on other machines
+   * @param advertisedHost - Host name or address the browsers reach the server at
+   * @returns Base URL of the running server
+   */
+  public async start(port: number = 0, host: string = '127.0.0.1', advertisedHost: string = host): Promise<string> {
+    if (this.server && this.url) {
+      return this.url;
+    }
+
+    const server = createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => {
+        console.error('Local server error:', (error as Error).message);
+        this.send(response, 500, 'text/plain', 'Internal Server Error');
+      });
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => resolve());
+      });
+    } catch (error) {
+      throw new Error(`Failed to start local SauceDemo server on ${host}:${port}: ${(error as Error).message}`);
+    }
+
+    const address = server.address() as AddressInfo;
+    this.server = server;
+    // IPv6 addresses are bracketed in URLs
+    const urlHost = advertisedHost.includes(':') && !advertisedHost.startsWith('[') ? `[${advertisedHost}]` : advertisedHost;
+    this.url = `http://${urlHost}:${address.port}`;
+    return this.url;
+  }
+
+  /**
+   * Stop the server and drop open connections
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = null;
+    this.url = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Get base URL of the running server
+   * @throws Error if server not started
+   */
+  public getUrl(): string {
+    if (!this.url) {
+      throw new Error('Local SauceDemo server not started. Call start() first.');
+    }
+    return this.url;
+  }
+
+  public isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  // Route a request to a page, asset or 404
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const { pathname } = new URL(request.url || '/', 'http://127.0.0.1');
+
+    if (pathname === '/static/js/app.js') {
+      this.send(response, 200, 'application/javascript', this.clientScript);
+      return;
+    }
+
+    if (pathname === '/static/css/main.css') {
+      this.send(response, 200, 'text/css', STYLESHEET);
+      return;
+    }
+
+    const media = /^\/static\/media\/([a-z0-9-]+)\.svg$/.exec(pathname);
+    if (media) {
+      const item = findItemByImage(media[1]);
+      if (item || media[1] === 'pony-express') {
+        this.send(response, 200, 'image/svg+xml', renderProductImage(item));
+        return;
+      }
+    }
+
+    const page = PAGE_ROUTES[pathname];
+    if (!page) {
+      this.send(response, 404, 'text/html', renderNotFoundPage());
+      return;
+    }
+
+    if (GLITCHED_PAGES.includes(page) && this.getSessionUser(request) === PERFORMANCE_GLITCH_USER) {
+      await new Promise(resolve => setTimeout(resolve, PERFORMANCE_GLITCH_DELAY));
+    }
+
+    this.send(response, 200, 'text/html', renderPage(page, ACCEPTED_USERNAMES, SHARED_PASSWORD));
+  }
+
+  // Read the logged-in username from the session cookie
+  private getSessionUser(request: IncomingMessage): string | undefined {
+    const cookies = (request.headers.cookie || '').split(';').map(cookie => cookie.trim());
+    const session = cookies.find(cookie => cookie.startsWith('session-username='));
+    return session ? decodeURIComponent(session.substring('session-username='.length)) : undefined;
+  }
+
+  private send(response: ServerResponse, status: number, contentType: string, body: string): void {
+    if (response.headersSent) {
+      response.end();
+      return;
+    }
+    response.writeHead(status, {
+      'Content-Type': `${contentType}; charset=utf-8`,
+      'Cache-Control': 'no-store'
+    });
+    response.end(body);
+  }
+}
+
+export default new LocalSauceDemoServer();
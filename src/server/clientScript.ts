@@ -0,0 +1,420 @@
+/**
+ * Browser-side script for the local SauceDemo server
+ * Keeps the session in the `session-username` cookie and the cart in the
+ * `cart-contents` localStorage entry, exactly like www.saucedemo.com.
+ * Expects a global `SAUCE` object ({ catalog, acceptedUsernames, lockedOutUsers, password })
+ * to be declared ahead of it; see LocalSauceDemoServer.
+ */
+export const CLIENT_SCRIPT = String.raw`
+(function () {
+  'use strict';
+
+  var CART_KEY = 'cart-contents';
+  var SESSION_COOKIE = 'session-username';
+  var SESSION_TTL_MS = 10 * 60 * 1000;
+  var REDIRECT_KEY = 'login-redirect';
+  var TAX_RATE = 0.08;
+  var BROKEN_IMAGE = '/static/media/sl-404.jpg';
+
+  var page = document.body.getAttribute('data-page');
+
+  function byId(id) {
+    return document.getElementById(id);
+  }
+
+  function slug(name) {
+    return name.toLowerCase().replace(/\s+/g, '-');
+  }
+
+  function escapeHtml(text) {
+    var map = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#039;' };
+    return String(text).replace(/[&<>"']/g, function (c) { return map[c]; });
+  }
+
+  function formatPrice(price) {
+    return '$' + price.toFixed(2);
+  }
+
+  function navigate(path) {
+    window.location.href = path;
+  }
+
+  // Session ----------------------------------------------------------------
+
+  function getUser() {
+    var prefix = SESSION_COOKIE + '=';
+    var cookies = document.cookie ? document.cookie.split('; ') : [];
+    for (var i = 0; i < cookies.length; i++) {
+      if (cookies[i].indexOf(prefix) === 0) {
+        return decodeURIComponent(cookies[i].substring(prefix.length)) || null;
+      }
+    }
+    return null;
+  }
+
+  function setUser(username) {
+    var expires = new Date(Date.now() + SESSION_TTL_MS).toUTCString();
+    document.cookie = SESSION_COOKIE + '=' + encodeURIComponent(username) + '; expires=' + expires + '; path=/';
+  }
+
+  function clearUser() {
+    document.cookie = SESSION_COOKIE + '=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/';
+  }
+
+  // Cart -------------------------------------------------------------------
+
+  function getCart() {
+    try {
+      var ids = JSON.parse(window.localStorage.getItem(CART_KEY) || '[]');
+      return Array.isArray(ids) ? ids : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  function setCart(ids) {
+    window.localStorage.setItem(CART_KEY, JSON.stringify(ids));
+    renderBadge();
+  }
+
+  function isInCart(id) {
+    return getCart().indexOf(id) !== -1;
+  }
+
+  function addToCart(id) {
+    var ids = getCart();
+    if (ids.indexOf(id) === -1) {
+      ids.push(id);
+      setCart(ids);
+    }
+  }
+
+  function removeFromCart(id) {
+    setCart(getCart().filter(function (cartId) { return cartId !== id; }));
+  }
+
+  function findItem(id) {
+    return SAUCE.catalog.filter(function (item) { return item.id === id; })[0];
+  }
+
+  function findItemBySlug(itemSlug) {
+    return SAUCE.catalog.filter(function (item) { return slug(item.name) === itemSlug; })[0];
+  }
+
+  function cartItems() {
+    return getCart().map(findItem).filter(Boolean);
+  }
+
+  function renderBadge() {
+    var link = document.querySelector('.shopping_cart_link');
+    if (!link) return;
+    var count = getCart().length;
+    link.innerHTML = count > 0
+      ? '<span class="shopping_cart_badge" data-test="shopping-cart-badge">' + count + '</span>'
+      : '';
+  }
+
+  // Markup -----------------------------------------------------------------
+
+  function imageFor(item) {
+    return getUser() === 'problem_user' ? BROKEN_IMAGE : '/static/media/' + item.image + '.svg';
+  }
+
+  function buttonAttributes(item, inCart, detailed) {
+    var action = inCart ? 'remove' : 'add-to-cart';
+    var id = detailed ? action : action + '-' + slug(item.name);
+    return { id: id, text: inCart ? 'Remove' : 'Add to cart' };
+  }
+
+  function renderCartButton(item, inCart, detailed, extraClass) {
+    var attrs = buttonAttributes(item, inCart, detailed);
+    var variant = inCart ? 'btn_secondary' : 'btn_primary';
+    return '<button class="btn ' + variant + ' btn_small ' + extraClass + '" data-test="' + attrs.id +
+      '" id="' + attrs.id + '" name="' + attrs.id + '">' + attrs.text + '</button>';
+  }
+
+  function applyButtonState(button, item, inCart) {
+    var attrs = buttonAttributes(item, inCart, Boolean(button.closest('.inventory_details')));
+    button.id = attrs.id;
+    button.name = attrs.id;
+    button.setAttribute('data-test', attrs.id);
+    button.textContent = attrs.text;
+    button.classList.toggle('btn_primary', !inCart);
+    button.classList.toggle('btn_secondary', inCart);
+  }
+
+  function renderInventoryItem(item) {
+    var itemSlug = slug(item.name);
+    return '<div class="inventory_item" data-test="inventory-item">' +
+      '<div class="inventory_item_img">' +
+        '<a href="/inventory-item.html?id=' + item.id + '" id="item_' + item.id + '_img_link" data-test="item-' + item.id + '-img-link">' +
+          '<img alt="' + escapeHtml(item.name) + '" class="inventory_item_img" src="' + imageFor(item) + '" data-test="inventory-item-' + escapeHtml(itemSlug) + '-img">' +
+        '</a>' +
+      '</div>' +
+      '<div class="inventory_item_description" data-test="inventory-item-description">' +
+        '<div class="inventory_item_label">' +
+          '<a href="/inventory-item.html?id=' + item.id + '" id="item_' + item.id + '_title_link" data-test="item-' + item.id + '-title-link">' +
+            '<div class="inventory_item_name" data-test="inventory-item-name">' + escapeHtml(item.name) + '</div>' +
+          '</a>' +
+          '<div class="inventory_item_desc" data-test="inventory-item-desc">' + escapeHtml(item.description) + '</div>' +
+        '</div>' +
+        '<div class="pricebar">' +
+          '<div class="inventory_item_price" data-test="inventory-item-price">' + formatPrice(item.price) + '</div>' +
+          renderCartButton(item, isInCart(item.id), false, 'btn_inventory') +
+        '</div>' +
+      '</div>' +
+    '</div>';
+  }
+
+  function renderCartItem(item, removable) {
+    return '<div class="cart_item" data-test="inventory-item">' +
+      '<div class="cart_quantity" data-test="item-quantity">1</div>' +
+      '<div class="cart_item_label">' +
+        '<a href="/inventory-item.html?id=' + item.id + '" id="item_' + item.id + '_title_link" data-test="item-' + item.id + '-title-link">' +
+          '<div class="inventory_item_name" data-test="inventory-item-name">' + escapeHtml(item.name) + '</div>' +
+        '</a>' +
+        '<div class="inventory_item_desc" data-test="inventory-item-desc">' + escapeHtml(item.description) + '</div>' +
+        '<div class="item_pricebar">' +
+          '<div class="inventory_item_price" data-test="inventory-item-price">' + formatPrice(item.price) + '</div>' +
+          (removable ? renderCartButton(item, true, false, 'cart_button') : '') +
+        '</div>' +
+      '</div>' +
+    '</div>';
+  }
+
+  // Forms ------------------------------------------------------------------
+
+  function showFormError(form, message) {
+    var container = form.querySelector('.error-message-container');
+    container.className = 'error-message-container error';
+    container.innerHTML = '<h3 data-test="error"><button class="error-button" data-test="error-button" type="button" aria-label="Close error"></button>' +
+      escapeHtml(message) + '</h3>';
+    form.querySelectorAll('.form_input').forEach(function (input) {
+      input.className = 'input_error form_input error';
+    });
+    container.querySelector('.error-button').addEventListener('click', function () {
+      clearFormError(form);
+    });
+  }
+
+  function clearFormError(form) {
+    var container = form.querySelector('.error-message-container');
+    container.className = 'error-message-container';
+    container.innerHTML = '';
+    form.querySelectorAll('.form_input').forEach(function (input) {
+      input.className = 'input_error form_input';
+    });
+  }
+
+  function validateLogin(username, password) {
+    if (!username) return 'Username is required';
+    if (!password) return 'Password is required';
+    if (SAUCE.acceptedUsernames.indexOf(username) === -1 || password !== SAUCE.password) {
+      return 'Username and password do not match any user in this service';
+    }
+    if (SAUCE.lockedOutUsers.indexOf(username) !== -1) return 'Sorry, this user has been locked out.';
+    return null;
+  }
+
+  // Pages ------------------------------------------------------------------
+
+  function initLogin() {
+    var form = document.querySelector('#login_button_container form');
+    var redirectedFrom = window.sessionStorage.getItem(REDIRECT_KEY);
+    if (redirectedFrom) {
+      window.sessionStorage.removeItem(REDIRECT_KEY);
+      showFormError(form, "Epic sadface: You can only access '" + redirectedFrom + "' when you are logged in.");
+    }
+
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+      var username = byId('user-name').value;
+      var error = validateLogin(username, byId('password').value);
+      if (error) {
+        showFormError(form, 'Epic sadface: ' + error);
+        return;
+      }
+      setUser(username);
+      navigate('/inventory.html');
+    });
+  }
+
+  function sortItems(items, order) {
+    return items.slice().sort(function (a, b) {
+      if (order === 'za') return a.name < b.name ? 1 : -1;
+      if (order === 'lohi') return a.price - b.price;
+      if (order === 'hilo') return b.price - a.price;
+      return a.name < b.name ? -1 : 1;
+    });
+  }
+
+  function initInventory() {
+    var list = document.querySelector('.inventory_list');
+    var select = document.querySelector('.product_sort_container');
+    var render = function () {
+      list.innerHTML = sortItems(SAUCE.catalog, select.value).map(renderInventoryItem).join('');
+    };
+    select.addEventListener('change', render);
+    render();
+  }
+
+  function initInventoryItem() {
+    var container = document.querySelector('.inventory_details');
+    var item = findItem(Number(new URLSearchParams(window.location.search).get('id')));
+    if (!item) {
+      container.innerHTML = '<div class="inventory_details_name large_size" data-test="inventory-item-name">ITEM NOT FOUND</div>';
+      return;
+    }
+    container.setAttribute('data-item-id', String(item.id));
+    container.innerHTML = '<div class="inventory_details_container">' +
+      '<div class="inventory_details_img_container">' +
+        '<img alt="' + escapeHtml(item.name) + '" class="inventory_details_img" src="' + imageFor(item) + '" data-test="item-' + escapeHtml(slug(item.name)) + '-img">' +
+      '</div>' +
+      '<div class="inventory_details_desc_container">' +
+        '<div class="inventory_details_name large_size" data-test="inventory-item-name">' + escapeHtml(item.name) + '</div>' +
+        '<div class="inventory_details_desc large_size" data-test="inventory-item-desc">' + escapeHtml(item.description) + '</div>' +
+        '<div class="inventory_details_price" data-test="inventory-item-price">' + formatPrice(item.price) + '</div>' +
+        renderCartButton(item, isInCart(item.id), true, 'btn_inventory') +
+      '</div>' +
+    '</div>';
+    byId('back-to-products').addEventListener('click', function () { navigate('/inventory.html'); });
+  }
+
+  function initCart() {
+    document.querySelector('.cart_list').insertAdjacentHTML('beforeend', cartItems().map(function (item) {
+      return renderCartItem(item, true);
+    }).join(''));
+    byId('continue-shopping').addEventListener('click', function () { navigate('/inventory.html'); });
+    byId('checkout').addEventListener('click', function () { navigate('/checkout-step-one.html'); });
+  }
+
+  function initCheckoutStepOne() {
+    var form = document.querySelector('.checkout_info_wrapper form');
+    var fields = [['first-name', 'First Name'], ['last-name', 'Last Name'], ['postal-code', 'Postal Code']];
+
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+      for (var i = 0; i < fields.length; i++) {
+        if (!byId(fields[i][0]).value) {
+          showFormError(form, 'Error: ' + fields[i][1] + ' is required');
+          return;
+        }
+      }
+      navigate('/checkout-step-two.html');
+    });
+    byId('cancel').addEventListener('click', function () { navigate('/cart.html'); });
+  }
+
+  function initCheckoutStepTwo() {
+    var items = cartItems();
+    document.querySelector('.cart_list').insertAdjacentHTML('beforeend', items.map(function (item) {
+      return renderCartItem(item, false);
+    }).join(''));
+
+    var subtotal = items.reduce(function (sum, item) { return sum + item.price; }, 0);
+    var tax = Math.round(subtotal * TAX_RATE * 100) / 100;
+    document.querySelector('.summary_subtotal_label').textContent = 'Item total: ' + formatPrice(subtotal);
+    document.querySelector('.summary_tax_label').textContent = 'Tax: ' + formatPrice(tax);
+    document.querySelector('.summary_total_label').textContent = 'Total: ' + formatPrice(subtotal + tax);
+
+    byId('cancel').addEventListener('click', function () { navigate('/inventory.html'); });
+    byId('finish').addEventListener('click', function () {
+      setCart([]);
+      navigate('/checkout-complete.html');
+    });
+  }
+
+  function initCheckoutComplete() {
+    byId('back-to-products').addEventListener('click', function () { navigate('/inventory.html'); });
+  }
+
+  // Shared chrome ----------------------------------------------------------
+
+  function itemForButton(button) {
+    var details = button.closest('.inventory_details');
+    if (details) return findItem(Number(details.getAttribute('data-item-id')));
+    return findItemBySlug(button.id.replace(/^(add-to-cart|remove)-/, ''));
+  }
+
+  function bindCartButtons() {
+    document.addEventListener('click', function (event) {
+      var button = event.target.closest('button');
+      if (!button || !/^(add-to-cart|remove)/.test(button.id)) return;
+      var item = itemForButton(button);
+      if (!item) return;
+
+      if (isInCart(item.id)) {
+        var row = button.closest('.cart_item');
+        // error_user cannot remove items from the product pages, like on the real site
+        if (!row && getUser() === 'error_user') {
+          throw new Error('Failed to remove item from cart.');
+        }
+        removeFromCart(item.id);
+        if (row) {
+          row.parentNode.removeChild(row);
+          return;
+        }
+        applyButtonState(button, item, false);
+      } else {
+        addToCart(item.id);
+        applyButtonState(button, item, true);
+      }
+    });
+  }
+
+  function refreshCartButtons() {
+    document.querySelectorAll('button[id^="remove"], button[id^="add-to-cart"]').forEach(function (button) {
+      var item = itemForButton(button);
+      if (item && !button.closest('.cart_item')) applyButtonState(button, item, isInCart(item.id));
+    });
+  }
+
+  function bindMenu() {
+    var wrap = document.querySelector('.bm-menu-wrap');
+    if (!wrap) return;
+    var setOpen = function (open) {
+      wrap.classList.toggle('bm-menu-open', open);
+      wrap.setAttribute('aria-hidden', String(!open));
+    };
+
+    byId('react-burger-menu-btn').addEventListener('click', function () { setOpen(true); });
+    byId('react-burger-cross-btn').addEventListener('click', function () { setOpen(false); });
+    byId('logout_sidebar_link').addEventListener('click', function (event) {
+      event.preventDefault();
+      clearUser();
+      navigate('/');
+    });
+    byId('reset_sidebar_link').addEventListener('click', function (event) {
+      event.preventDefault();
+      setCart([]);
+      refreshCartButtons();
+    });
+  }
+
+  if (page !== 'login' && !getUser()) {
+    window.sessionStorage.setItem(REDIRECT_KEY, window.location.pathname);
+    window.location.replace('/');
+    return;
+  }
+
+  var initializers = {
+    'login': initLogin,
+    'inventory': initInventory,
+    'inventory-item': initInventoryItem,
+    'cart': initCart,
+    'checkout-step-one': initCheckoutStepOne,
+    'checkout-step-two': initCheckoutStepTwo,
+    'checkout-complete': initCheckoutComplete
+  };
+
+  // visual_user gets a misplaced cart icon and shifted prices, like on the real site
+  if (getUser() === 'visual_user') {
+    document.body.classList.add('visual_failure');
+  }
+
+  bindMenu();
+  bindCartButtons();
+  renderBadge();
+  initializers[page]();
+})();
+`;
@@ -0,0 +1,330 @@
+import type { CatalogItem } from '../types/index.js';
+
+/**
+ * HTML templates for the local SauceDemo server
+ * Static page shells use the same ids, classes and data-test attributes as www.saucedemo.com;
+ * dynamic content (inventory, cart, totals) is rendered by the client script
+ */
+
+export type PageName =
+  | 'login'
+  | 'inventory'
+  | 'inventory-item'
+  | 'cart'
+  | 'checkout-step-one'
+  | 'checkout-step-two'
+  | 'checkout-complete';
+
+// Wrap page content in the shared document skeleton
+function renderDocument(page: PageName, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Swag Labs</title>
+    <link rel="stylesheet" href="/static/css/main.css">
+</head>
+<body data-page="${page}">
+    <div id="root">${body}</div>
+    <script src="/static/js/app.js"></script>
+</body>
+</html>`;
+}
+
+// Header with burger menu, cart link and the secondary title bar
+function renderHeader(title: string, secondary: string = ''): string {
+  return `
+    <div class="header_container" id="header_container" data-test="header-container">
+        <div class="primary_header" data-test="primary-header">
+            <div id="menu_button_container">
+                <div class="bm-burger-button">
+                    <button type="button" id="react-burger-menu-btn">Open Menu</button>
+                </div>
+                <div class="bm-menu-wrap" aria-hidden="true">
+                    <nav class="bm-item-list">
+                        <a id="inventory_sidebar_link" class="bm-item menu-item" href="/inventory.html" data-test="inventory-sidebar-link">All Items</a>
+                        <a id="about_sidebar_link" class="bm-item menu-item" href="https://saucelabs.com/" data-test="about-sidebar-link">About</a>
+                        <a id="logout_sidebar_link" class="bm-item menu-item" href="#" data-test="logout-sidebar-link">Logout</a>
+                        <a id="reset_sidebar_link" class="bm-item menu-item" href="#" data-test="reset-sidebar-link">Reset App State</a>
+                    </nav>
+                    <div class="bm-cross-button">
+                        <button type="button" id="react-burger-cross-btn">Close Menu</button>
+                    </div>
+                </div>
+            </div>
+            <div class="header_label"><div class="app_logo">Swag Labs</div></div>
+            <div id="shopping_cart_container" class="shopping_cart_container">
+                <a class="shopping_cart_link" href="/cart.html" data-test="shopping-cart-link"></a>
+            </div>
+        </div>
+        <div class="header_secondary_container" data-test="secondary-header">
+            ${title ? `<span class="title" data-test="title">${title}</span>` : ''}
+            ${secondary}
+        </div>
+    </div>`;
+}
+
+// Wrap an authenticated page in the header and footer chrome
+function renderAppPage(page: PageName, title: string, content: string, secondary: string = ''): string {
+  return renderDocument(page, `
+    <div id="page_wrapper" class="page_wrapper">
+        <div id="contents_wrapper">
+            ${renderHeader(title, secondary)}
+            <div id="${page === 'inventory' ? 'inventory_container' : `${page}_container`}" class="${page}_container">
+                ${content}
+            </div>
+        </div>
+        <footer class="footer" data-test="footer">
+            <div class="footer_copy" data-test="footer-copy">© 2026 Sauce Labs. All Rights Reserved.</div>
+        </footer>
+    </div>`);
+}
+
+// Text inputs used by the login and checkout forms
+function renderInput(id: string, dataTest: string, placeholder: string, type: string = 'text'): string {
+  return `<div class="form_group"><input class="input_error form_input" placeholder="${placeholder}" type="${type}" data-test="${dataTest}" id="${id}" name="${id}" autocorrect="off" autocapitalize="none" value=""></div>`;
+}
+
+function renderLoginPage(acceptedUsernames: string[], password: string): string {
+  return renderDocument('login', `
+    <div class="login_container">
+        <div class="login_logo">Swag Labs</div>
+        <div class="login_wrapper">
+            <div class="login_wrapper-inner">
+                <div id="login_button_container" class="form_column">
+                    <div class="login-box">
+                        <form novalidate>
+                            ${renderInput('user-name', 'username', 'Username')}
+                            ${renderInput('password', 'password', 'Password', 'password')}
+                            <div class="error-message-container"></div>
+                            <input type="submit" class="submit-button btn_action" data-test="login-button" id="login-button" name="login-button" value="Login">
+                        </form>
+                    </div>
+                </div>
+            </div>
+            <div class="login_credentials_wrap">
+                <div class="login_credentials_wrap-inner">
+                    <div id="login_credentials" class="login_credentials" data-test="login-credentials">
+                        <h4>Accepted usernames are:</h4>${acceptedUsernames.join('<br>')}<br>
+                    </div>
+                    <div class="login_password" data-test="login-password">
+                        <h4>Password for all users:</h4>${password}
+                    </div>
+                </div>
+            </div>
+        </div>
+    </div>`);
+}
+
+function renderInventoryPage(): string {
+  const sortSelect = `
+            <div class="right_component">
+                <span class="select_container">
+                    <select class="product_sort_container" data-test="product-sort-container">
+                        <option value="az">Name (A to Z)</option>
+                        <option value="za">Name (Z to A)</option>
+                        <option value="lohi">Price (low to high)</option>
+                        <option value="hilo">Price (high to low)</option>
+                    </select>
+                </span>
+            </div>`;
+
+  return renderAppPage('inventory', 'Products', `
+                <div class="inventory_list" data-test="inventory-list"></div>`, sortSelect);
+}
+
+function renderInventoryItemPage(): string {
+  const backButton = `<button class="btn btn_secondary back btn_large inventory_details_back_button" data-test="back-to-products" id="back-to-products" name="back-to-products">Back to products</button>`;
+
+  return renderAppPage('inventory-item', '', `
+                <div class="inventory_details" data-test="inventory-container"></div>`, backButton);
+}
+
+function renderCartPage(): string {
+  return renderAppPage('cart', 'Your Cart', `
+                <div class="cart_list" data-test="cart-list">
+                    <div class="cart_quantity_label" data-test="cart-quantity-label">QTY</div>
+                    <div class="cart_desc_label" data-test="cart-desc-label">Description</div>
+                </div>
+                <div class="cart_footer">
+                    <button class="btn btn_secondary back btn_medium" data-test="continue-shopping" id="continue-shopping" name="continue-shopping">Continue Shopping</button>
+                    <button class="btn btn_action btn_medium checkout_button" data-test="checkout" id="checkout" name="checkout">Checkout</button>
+                </div>`);
+}
+
+function renderCheckoutStepOnePage(): string {
+  return renderAppPage('checkout-step-one', 'Checkout: Your Information', `
+                <div class="checkout_info_wrapper">
+                    <form novalidate>
+                        <div class="checkout_info" data-test="checkout-info-container">
+                            ${renderInput('first-name', 'firstName', 'First Name')}
+                            ${renderInput('last-name', 'lastName', 'Last Name')}
+                            ${renderInput('postal-code', 'postalCode', 'Zip/Postal Code')}
+                            <div class="error-message-container"></div>
+                        </div>
+                        <div class="checkout_buttons">
+                            <button class="btn btn_secondary back btn_medium cart_cancel_link" data-test="cancel" id="cancel" name="cancel" type="button">Cancel</button>
+                            <input type="submit" class="submit-button btn btn_primary cart_button btn_action" data-test="continue" id="continue" name="continue" value="Continue">
+                        </div>
+                    </form>
+                </div>`);
+}
+
+function renderCheckoutStepTwoPage(): string {
+  return renderAppPage('checkout-step-two', 'Checkout: Overview', `
+                <div class="checkout_summary_container" data-test="checkout-summary-container">
+                    <div class="cart_list" data-test="cart-list">
+                        <div class="cart_quantity_label" data-test="cart-quantity-label">QTY</div>
+                        <div class="cart_desc_label" data-test="cart-desc-label">Description</div>
+                    </div>
+                    <div class="summary_info">
+                        <div class="summary_info_label" data-test="payment-info-label">Payment Information:</div>
+                        <div class="summary_value_label" data-test="payment-info-value">SauceCard #31337</div>
+                        <div class="summary_info_label" data-test="shipping-info-label">Shipping Information:</div>
+                        <div class="summary_value_label" data-test="shipping-info-value">Free Pony Express Delivery!</div>
+                        <div class="summary_info_label" data-test="total-info-label">Price Total</div>
+                        <div class="summary_subtotal_label" data-test="subtotal-label"></div>
+                        <div class="summary_tax_label" data-test="tax-label"></div>
+                        <div class="summary_info_label summary_total_label" data-test="total-label"></div>
+                        <div class="cart_footer">
+                            <button class="btn btn_secondary back btn_medium cart_cancel_link" data-test="cancel" id="cancel" name="cancel">Cancel</button>
+                            <button class="btn btn_action btn_medium cart_button" data-test="finish" id="finish" name="finish">Finish</button>
+                        </div>
+                    </div>
+                </div>`);
+}
+
+function renderCheckoutCompletePage(): string {
+  return renderAppPage('checkout-complete', 'Checkout: Complete!', `
+                <div class="checkout_complete_container" data-test="checkout-complete-container">
+                    <img alt="Pony Express" class="pony_express" data-test="pony-express" src="/static/media/pony-express.svg">
+                    <h2 class="complete-header" data-test="complete-header">Thank you for your order!</h2>
+                    <div class="complete-text" data-test="complete-text">Your order has been dispatched, and will arrive just as fast as the pony can get there!</div>
+                    <button class="btn btn_primary btn_small" data-test="back-to-products" id="back-to-products" name="back-to-products">Back Home</button>
+                </div>`);
+}
+
+/**
+ * Render a page shell by name
+ * @param page - Page to render
+ * @param acceptedUsernames - Usernames listed on the login page
+ * @param password - Password listed on the login page
+ * @returns HTML document
+ */
+export function renderPage(page: PageName, acceptedUsernames: string[], password: string): string {
+  switch (page) {
+    case 'login':
+      return renderLoginPage(acceptedUsernames, password);
+    case 'inventory':
+      return renderInventoryPage();
+    case 'inventory-item':
+      return renderInventoryItemPage();
+    case 'cart':
+      return renderCartPage();
+    case 'checkout-step-one':
+      return renderCheckoutStepOnePage();
+    case 'checkout-step-two':
+      return renderCheckoutStepTwoPage();
+    case 'checkout-complete':
+      return renderCheckoutCompletePage();
+  }
+}
+
+// Plain 404 page for unknown routes
+export function renderNotFoundPage(): string {
+  return '<!DOCTYPE html><html lang="en"><head><title>Not Found</title></head><body><h1>404 Not Found</h1></body></html>';
+}
+
+/**
+ * Render a placeholder product image
+ * @param item - Catalog item, or undefined for the generic pony image
+ * @returns SVG document
+ */
+export function renderProductImage(item?: CatalogItem): string {
+  const hue = item ? (item.id * 57) % 360 : 210;
+  const label = item ? item.name : 'Pony Express';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="300" viewBox="0 0 300 300">
+    <rect width="300" height="300" fill="hsl(${hue}, 45%, 85%)"/>
+    <circle cx="150" cy="130" r="70" fill="hsl(${hue}, 55%, 55%)"/>
+    <text x="150" y="260" font-family="sans-serif" font-size="14" text-anchor="middle" fill="#132322">${label.replace(/[&<>]/g, '')}</text>
+</svg>`;
+}
+
+export const STYLESHEET = `
+* { box-sizing: border-box; }
+body { margin: 0; font-family: 'DM Sans', Arial, Helvetica, sans-serif; color: #132322; background: #fff; }
+a { color: inherit; }
+.btn { cursor: pointer; border-radius: 4px; border: 1px solid #132322; padding: 8px 16px; font-size: 14px; font-weight: 500; background: #fff; }
+.btn_primary, .btn_action { background: #3ddc91; border-color: #3ddc91; color: #132322; }
+.btn_secondary { background: #fff; color: #e2231a; border-color: #e2231a; }
+.btn_medium { min-width: 160px; height: 40px; }
+.btn_large { height: 40px; }
+.login_container { text-align: center; }
+.login_logo { font-size: 24px; font-weight: 700; padding: 30px 0; }
+.login_wrapper-inner { display: flex; justify-content: center; padding: 40px 0; background: #f3f3f3; }
+.login-box { width: 340px; padding: 30px; background: #fff; border-radius: 8px; }
+.form_group { margin-bottom: 16px; }
+.form_input { width: 100%; height: 40px; padding: 8px; border: 0; border-bottom: 1px solid #ededed; font-size: 14px; }
+.form_input.error { border-bottom-color: #e2231a; }
+.submit-button { width: 100%; height: 48px; font-size: 16px; cursor: pointer; border: 0; border-radius: 4px; }
+.error-message-container { min-height: 0; margin-bottom: 16px; }
+.error-message-container.error { background: #e2231a; color: #fff; border-radius: 4px; }
+.error-message-container h3 { position: relative; margin: 0; padding: 12px 40px 12px 12px; font-size: 14px; font-weight: 500; text-align: left; }
+.error-button { position: absolute; top: 8px; right: 8px; width: 24px; height: 24px; padding: 0; border: 0; background: transparent; color: #fff; cursor: pointer; }
+.error-button::before { content: '\\2715'; }
+.login_credentials_wrap-inner { display: flex; justify-content: center; gap: 40px; padding: 30px; background: #132322; color: #fff; text-align: left; }
+.page_wrapper { min-height: 100vh; display: flex; flex-direction: column; }
+#contents_wrapper { flex: 1; }
+.primary_header { position: relative; display: flex; align-items: center; justify-content: space-between; height: 60px; padding: 0 20px; border-bottom: 1px solid #ededed; }
+.app_logo { font-size: 24px; font-weight: 700; }
+#react-burger-menu-btn, #react-burger-cross-btn { width: 36px; height: 30px; overflow: hidden; text-indent: -999px; cursor: pointer; border: 0; background: linear-gradient(#132322 0 20%, transparent 20% 40%, #132322 40% 60%, transparent 60% 80%, #132322 80%); }
+#react-burger-cross-btn { background: #132322; width: 24px; height: 24px; }
+.bm-menu-wrap { display: none; position: fixed; top: 0; left: 0; z-index: 1100; width: 300px; height: 100%; padding: 24px; background: #fff; box-shadow: 2px 0 8px rgba(0,0,0,0.2); }
+.bm-menu-wrap.bm-menu-open { display: block; }
+.bm-cross-button { position: absolute; top: 16px; right: 16px; }
+.bm-item { display: block; padding: 12px 0; text-decoration: none; font-size: 18px; }
+.shopping_cart_container { position: relative; }
+.shopping_cart_link { display: block; width: 40px; height: 40px; background: radial-gradient(circle, #132322 35%, transparent 36%); }
+.shopping_cart_badge { position: absolute; top: -6px; right: -6px; min-width: 20px; height: 20px; padding: 0 4px; border-radius: 10px; background: #e2231a; color: #fff; font-size: 12px; line-height: 20px; text-align: center; }
+.header_secondary_container { display: flex; align-items: center; justify-content: space-between; padding: 16px 20px; }
+.title { font-size: 18px; font-weight: 500; }
+.product_sort_container { height: 36px; padding: 0 8px; font-size: 14px; }
+.inventory_list { display: grid; grid-template-columns: repeat(2, 1fr); gap: 20px; padding: 20px; }
+.inventory_item { display: flex; gap: 16px; padding: 16px; border: 1px solid #ededed; border-radius: 8px; }
+.inventory_item_img img { width: 160px; height: 160px; }
+.inventory_item_description { display: flex; flex: 1; flex-direction: column; justify-content: space-between; }
+.inventory_item_name, .inventory_details_name { font-size: 18px; font-weight: 500; color: #18583a; }
+.inventory_item_desc, .inventory_details_desc { margin: 8px 0; font-size: 14px; }
+.pricebar, .item_pricebar { display: flex; align-items: center; justify-content: space-between; }
+.inventory_item_price, .inventory_details_price { font-size: 20px; font-weight: 500; }
+.inventory_details_container { display: flex; gap: 40px; padding: 20px; }
+.inventory_details_img { width: 300px; height: 300px; }
+.cart_list { padding: 20px; }
+.cart_quantity_label, .cart_desc_label { display: inline-block; margin-right: 40px; font-weight: 500; }
+.cart_item { display: flex; gap: 24px; padding: 16px 0; border-bottom: 1px solid #ededed; }
+.cart_quantity { min-width: 32px; height: 32px; border: 1px solid #ededed; text-align: center; line-height: 32px; }
+.cart_item_label { flex: 1; }
+.cart_footer, .checkout_buttons { display: flex; justify-content: space-between; padding: 20px; }
+.checkout_info { max-width: 500px; margin: 0 auto; padding: 20px; }
+.summary_info { padding: 0 20px; }
+.summary_info_label { margin-top: 12px; font-weight: 500; }
+.summary_total_label { font-size: 18px; }
+.checkout_complete_container { padding: 40px; text-align: center; }
+.pony_express { width: 120px; height: 120px; }
+.footer { padding: 20px; background: #132322; color: #fff; text-align: center; }
+.visual_failure .shopping_cart_link { transform: translate(-14px, 10px) rotate(12deg); }
+.visual_failure .inventory_item_price { padding-left: 24px; }
+@media (max-width: 1000px) {
+  .inventory_list { grid-template-columns: 1fr; }
+}
+@media (max-width: 640px) {
+  .inventory_item { flex-direction: column; }
+  .inventory_item_img img { width: 100%; height: auto; }
+  .inventory_details_container { flex-direction: column; }
+  .login_credentials_wrap-inner { flex-direction: column; gap: 10px; }
+  .bm-menu-wrap { width: 100%; }
+  .app_logo { font-size: 18px; }
+  .product_sort_container { width: 36px; padding: 0; text-indent: -999px; }
+}
+`;
@@ -0,0 +1,17 @@
+/**
+ * SauceDemo user directory
+ * Mirrors the logins www.saucedemo.com accepts so the local server behaves like the real site
+ */
+
+export const SHARED_PASSWORD = 'secret_sauce';
+
+export const ACCEPTED_USERNAMES: string[] = [
+  'standard_user',
+  'locked_out_user',
+  'problem_user',
+  'performance_glitch_user',
+  'error_user',
+  'visual_user'
+];
+
+export const LOCKED_OUT_USERNAMES: string[] = ['locked_out_user'];
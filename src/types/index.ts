@@ -1,30 +1,164 @@
+import type { Builder, By, Capabilities, WebDriver } from 'selenium-webdriver';
+
 /**
  * Type definitions for the test automation framework
  */
 
+// Remote Selenium Grid / standalone server settings
+export interface RemoteConfig {
+  url: string;
+  platformName?: string;
+  browserVersion?: string;
+  sessionName?: string;
+  tags: string[];
+}
+
+// Named device viewport used for responsive checks
+export interface DeviceProfile {
+  name: string;
+  width: number;
+  height: number;
+  pixelRatio: number;
+  mobile: boolean;
+  userAgent?: string;
+}
+
+// Named network conditions for Chrome DevTools Protocol Network.emulateNetworkConditions
+export interface NetworkProfile {
+  name: string;
+  offline: boolean;
+  // Added round-trip time in ms
+  latency: number;
+  // Throughput in bytes per second, -1 leaves it unthrottled
+  downloadThroughput: number;
+  uploadThroughput: number;
+}
+
+// Settings a browser profile needs to build launch options
+export interface BrowserLaunchSettings {
+  headless: boolean;
+  windowSize: {
+    width: number;
+    height: number;
+  };
+  device?: DeviceProfile;
+  captureLogs: boolean;
+  bidi: boolean;
+}
+
+// Pluggable browser profile registered with WebDriverManager
+export interface BrowserProfile {
+  name: string;
+  createOptions(settings: BrowserLaunchSettings): Capabilities;
+  applyTo(builder: Builder, options: Capabilities): void;
+  afterStart?(driver: WebDriver, settings: BrowserLaunchSettings): Promise<void>;
+}
+
+// Custom browser profile declared in config, extending a built-in profile
+export interface BrowserProfileConfig {
+  extends: string;
+  arguments?: string[];
+  userDataDir?: string;
+  proxy?: string;
+  preferences?: Record<string, string | number | boolean>;
+  capabilities?: Record<string, unknown>;
+}
+
 // Browser configuration options
 export interface BrowserConfig {
-  name: 'chrome' | 'firefox';
+  name: string;
   headless: boolean;
   windowSize: {
     width: number;
     height: number;
   };
+  device?: string;
+  network?: string;
+  remote?: RemoteConfig;
 }
 
+// Report outputs written from the root afterAll hook
+export type ReportFormat = 'html' | 'json' | 'junit';
+
+// Per-test screen recording: stitched screenshots or ffmpeg grabbing the X display
+export type VideoMode = 'off' | 'screenshots' | 'ffmpeg';
+
+// How suites log in: through the login form or by setting the session cookie
+export type LoginMode = 'ui' | 'session';
+
 // Test configuration interface
 export interface TestConfig {
   baseUrl: string;
+  localServer: {
+    enabled: boolean;
+    port: number;
+    // Address to listen on, and the one put in the base URL the browsers open
+    host: string;
+    advertisedHost: string;
+  };
   browser: BrowserConfig;
+  browserProfiles: Record<string, BrowserProfileConfig>;
   timeout: {
     implicit: number;
     explicit: number;
     pageLoad: number;
   };
+  interactions: {
+    // Wait between retries of a click, typing or text read, in ms
+    pollInterval: number;
+    // Error names that make BasePage locate the element again and retry
+    retryableErrors: string[];
+  };
+  driverPool: {
+    maxConcurrency: number;
+    reuseSessions: boolean;
+    acquireTimeout: number;
+  };
+  retries: {
+    default: number;
+    suites: Record<string, number>;
+    tests: Record<string, number>;
+  };
+  login: {
+    mode: LoginMode;
+    suites: Record<string, LoginMode>;
+  };
+  reporting: {
+    formats: ReportFormat[];
+    historySize: number;
+    historyMaxRuns: number;
+  };
   screenshots: {
     onFailure: boolean;
     onSuccess: boolean;
     path: string;
+    browserLogs: boolean;
+  };
+  pageErrors: {
+    enabled: boolean;
+    failTests: boolean;
+    allowlist: string[];
+    settleTime: number;
+  };
+  video: {
+    mode: VideoMode;
+    keep: 'failed' | 'all';
+    frameInterval: number;
+    ffmpegPath: string;
+  };
+  visual: {
+    baselineDir: string;
+    threshold: number;
+    maxDiffRatio: number;
+    updateBaselines: boolean;
+  };
+  accessibility: {
+    tags: string[];
+    disableRules: string[];
+  };
+  performance: {
+    enabled: boolean;
+    budgets: Record<string, PerformanceBudget>;
   };
 }
 
@@ -52,6 +186,15 @@ export interface Product {
   priceText: string;
 }
 
+// Product in the SauceDemo catalog
+export interface CatalogItem {
+  id: number;
+  name: string;
+  description: string;
+  price: number;
+  image: string;
+}
+
 // Sort options for products
 export type SortOption = 'az' | 'za' | 'lohi' | 'hilo';
 
@@ -70,6 +213,14 @@ export interface CheckoutInfo {
   postalCode: string;
 }
 
+// Fields of the checkout information form
+export type CheckoutField = keyof CheckoutInfo;
+
+// Checkout information the form rejects, with the error it shows
+export interface InvalidCheckoutInfo extends CheckoutInfo {
+  expectedError: string;
+}
+
 // Order summary details
 export interface OrderSummary {
   items: CartItem[];
@@ -82,26 +233,138 @@ export interface OrderSummary {
 export interface TestResult {
   suiteName: string;
   testName: string;
-  status: 'passed' | 'failed' | 'skipped';
+  status: 'passed' | 'failed' | 'skipped' | 'flaky';
+  duration: number;
+  error?: string;
+  screenshot?: string;
+  attachments?: Attachment[];
+  attempts: number;
+  failedAttempts?: FailedAttempt[];
+  pageErrors?: PageError[];
+  accessibility?: AccessibilityAudit[];
+  performance?: PerformanceRecord[];
+  // Network profile the browser was emulating when the test finished
+  networkProfile?: string;
+  healedLocators?: HealedLocator[];
+}
+
+// Evidence from an attempt that failed and was retried
+export interface FailedAttempt {
+  attempt: number;
   duration: number;
   error?: string;
   screenshot?: string;
+  attachments?: Attachment[];
+}
+
+// Browser console entry from logging prefs or BiDi log.entryAdded
+export interface ConsoleEntry {
+  timestamp: number;
+  level: string;
+  message: string;
+  source?: string;
+}
+
+// Summary of one network request and its response
+export interface NetworkEntry {
+  timestamp: number;
+  method: string;
+  url: string;
+  status?: number;
+  statusText?: string;
+  mimeType?: string;
+  duration?: number;
+  error?: string;
+}
+
+// Console and network entries collected from a session
+export interface BrowserLogs {
+  console: ConsoleEntry[];
+  network: NetworkEntry[];
+}
+
+// Uncaught page exception or 4xx/5xx response recorded over BiDi during a test
+export interface PageError {
+  type: 'exception' | 'http';
+  timestamp: number;
+  message: string;
+  url?: string;
+  status?: number;
+}
+
+// Subset of the BiDi connection selenium-webdriver opens for sessions started with webSocketUrl
+export interface BidiConnection {
+  subscribe(events: string | string[]): Promise<void>;
+  socket: { on(event: 'message', listener: (data: Buffer) => void): void };
+}
+
+// Failure evidence file saved under the run's evidence folder
+export interface Attachment {
+  name: string;
+  type: 'screenshot' | 'page-source' | 'info' | 'console-log' | 'network-log' | 'video' |
+    'snapshot-baseline' | 'snapshot-actual' | 'snapshot-diff';
+  path: string;
+  contentType: string;
+  runId: string;
+  // Visual snapshot the file belongs to
+  snapshot?: string;
+}
+
+// Results one Mocha process ran, saved for the main process to merge into the run's reports
+export interface RunResults {
+  testResults: TestResult[];
+  gridNodes: string[];
 }
 
 // Report data structure
 export interface ReportData {
+  runId: string;
   timestamp: string;
   totalTests: number;
   passed: number;
   failed: number;
   skipped: number;
+  flaky: number;
   duration: number;
   testResults: TestResult[];
   environment: {
     browser: string;
     platform: string;
     nodeVersion: string;
+    remoteUrl?: string;
+    gridNodes?: string[];
   };
+  trends?: TrendData;
+}
+
+// One run in the history store, reports/history/runs.jsonl
+export interface RunHistoryEntry {
+  runId: string;
+  timestamp: string;
+  browser: string;
+  totalTests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  flaky: number;
+  duration: number;
+  tests: Array<Pick<TestResult, 'suiteName' | 'testName' | 'status' | 'duration'>>;
+}
+
+// A test's history over the runs in the trend window, oldest first
+export interface TestTrend {
+  suiteName: string;
+  testName: string;
+  durations: Array<number | null>;
+  statuses: Array<TestResult['status'] | null>;
+}
+
+// Trends across recent runs shown in the HTML report
+export interface TrendData {
+  runs: Array<{ timestamp: string; passRate: number }>;
+  tests: TestTrend[];
+  newlyFailing: TestTrend[];
+  wentGreen: TestTrend[];
 }
 
 //Shopping scenario for data-driven testing
@@ -112,9 +375,131 @@ export interface ShoppingScenario {
   checkoutInfo: CheckoutInfo;
 }
 
+// Rectangle in CSS pixels, relative to the page viewport or the snapshot element
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Visual snapshot options; thresholds default to the visual config
+export interface SnapshotOptions {
+  threshold?: number;
+  maxDiffRatio?: number;
+  ignore?: Array<Region | By>;
+}
+
+// Outcome of comparing a screenshot with its baseline
+export interface SnapshotResult {
+  name: string;
+  status: 'matched' | 'mismatched' | 'missing' | 'created' | 'updated';
+  diffPixels: number;
+  diffRatio: number;
+  baselinePath: string;
+  message: string;
+}
+
+// axe-core impact levels, from least to most severe
+export type AccessibilityImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+// Options for an axe-core audit; rules and tags default to the accessibility config
+export interface AccessibilityAuditOptions {
+  // CSS selectors of the parts to audit, the whole page by default
+  include?: string[];
+  exclude?: string[];
+  // Run only these rule ids, instead of every rule with the configured tags
+  rules?: string[];
+  tags?: string[];
+  disableRules?: string[];
+}
+
+// Rule broken by one or more elements on the page
+export interface AccessibilityViolation {
+  id: string;
+  impact: AccessibilityImpact | null;
+  description: string;
+  help: string;
+  helpUrl: string;
+  tags: string[];
+  nodes: Array<{
+    target: string[];
+    html: string;
+    failureSummary?: string;
+  }>;
+}
+
+// Result of auditing one page
+export interface AccessibilityAudit {
+  page: string;
+  url: string;
+  timestamp: string;
+  violations: AccessibilityViolation[];
+  passes: number;
+  incomplete: number;
+}
+
+// Navigation and paint timings of a document, in ms from the start of its navigation
+export interface PerformanceTimings {
+  ttfb: number;
+  domContentLoaded: number;
+  load: number;
+  // Largest contentful paint, null where the browser does not report it
+  lcp: number | null;
+}
+
+export type PerformanceMetric = keyof PerformanceTimings;
+
+// Upper limits in ms for some or all of the timings
+export type PerformanceBudget = Partial<Record<PerformanceMetric, number>>;
+
+// Timing that went over its budget
+export interface PerformanceBreach {
+  metric: PerformanceMetric;
+  value: number;
+  budget: number;
+}
+
+// Timings of the document loaded by a page object action
+export interface PerformanceRecord {
+  action: string;
+  url: string;
+  // URL path the budget was looked up by
+  path: string;
+  timestamp: string;
+  timings: PerformanceTimings;
+  budget: PerformanceBudget;
+  breaches: PerformanceBreach[];
+  // Network profile the document was loaded under, undefined for an unthrottled network
+  network?: string;
+}
+
+// How a locator candidate finds its element, the primary locator or one of its fallbacks
+export type LocatorStrategy = 'primary' | 'dataTest' | 'id' | 'css' | 'text';
+
+// One way of finding an element, with the code that builds it for healing suggestions
+export interface LocatorCandidate {
+  strategy: LocatorStrategy;
+  by: By;
+  code: string;
+}
+
+// A locator whose primary failed and which was found through a fallback instead
+export interface HealedLocator {
+  // Page object the element was looked up from
+  page: string;
+  locator: string;
+  primary: string;
+  strategy: LocatorStrategy;
+  fallback: string;
+  // Locator to replace the primary with, built from the found element where possible
+  suggestion: string;
+  timestamp: string;
+}
+
 // Test data structure
 export interface TestData {
   validCheckoutData: CheckoutInfo[];
-  invalidCheckoutData: CheckoutInfo[];
+  invalidCheckoutData: InvalidCheckoutInfo[];
   shoppingScenarios: ShoppingScenario[];
 }
\ No newline at end of file
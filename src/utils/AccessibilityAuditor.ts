@@ -0,0 +1,122 @@
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+
+import { WebDriver } from 'selenium-webdriver';
+
+import config from '../config/test.config.js';
+import type { AccessibilityAudit, AccessibilityAuditOptions } from '../types/index.js';
+
+// Runs axe in the page and hands back only what the audit keeps
+const RUN_AXE_SCRIPT = `
+  const [context, options, done] = arguments;
+  window.axe.run(context || document, options).then(results => done({
+    url: results.url,
+    passes: results.passes.length,
+    incomplete: results.incomplete.length,
+    violations: results.violations.map(violation => ({
+      id: violation.id,
+      impact: violation.impact || null,
+      description: violation.description,
+      help: violation.help,
+      helpUrl: violation.helpUrl,
+      tags: violation.tags,
+      nodes: violation.nodes.map(node => ({
+        target: node.target.map(String),
+        html: node.html,
+        failureSummary: node.failureSummary
+      }))
+    }))
+  }), error => done({ error: String(error) }));`;
+
+type AxeOutcome = Omit<AccessibilityAudit, 'page' | 'timestamp'> | { error: string };
+
+/**
+ * Accessibility auditor
+ * Injects axe-core into the current page and runs it, keeping every audit of the
+ * current test so the report can list violations per page
+ */
+class AccessibilityAuditor {
+  private axeSource: string | null = null;
+  private audits: AccessibilityAudit[] = [];
+
+  /**
+   * Audit the current page with axe-core
+   * @param driver - WebDriver instance
+   * @param page - Name of the audited page, e.g. the page object class
+   * @param options - Parts of the page and rules to audit
+   * @returns Audit with the violations found
+   */
+  public async audit(
+    driver: WebDriver,
+    page: string,
+    options: AccessibilityAuditOptions = {}
+  ): Promise<AccessibilityAudit> {
+    try {
+      const hasAxe = await driver.executeScript<boolean>('return typeof window.axe !== "undefined";');
+      if (!hasAxe) {
+        await driver.executeScript(this.getAxeSource());
+      }
+
+      const outcome = await driver.executeAsyncScript<AxeOutcome>(
+        RUN_AXE_SCRIPT,
+        this.buildContext(options),
+        this.buildRunOptions(options)
+      );
+      if ('error' in outcome) {
+        throw new Error(outcome.error);
+      }
+
+      const audit: AccessibilityAudit = { page, timestamp: new Date().toISOString(), ...outcome };
+      this.audits.push(audit);
+      return audit;
+    } catch (error) {
+      throw new Error(`Failed to audit accessibility of ${page}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Take the audits run since the last call
+   * @returns Audits, oldest first
+   */
+  public takeAudits(): AccessibilityAudit[] {
+    return this.audits.splice(0);
+  }
+
+  // axe.min.js from the installed axe-core package, read once
+  private getAxeSource(): string {
+    if (this.axeSource === null) {
+      const require = createRequire(import.meta.url);
+      this.axeSource = readFileSync(require.resolve('axe-core/axe.min.js'), 'utf8');
+    }
+    return this.axeSource;
+  }
+
+  // The whole document unless parts are included or excluded
+  private buildContext(options: AccessibilityAuditOptions): Record<string, string[]> | null {
+    if (!options.include?.length && !options.exclude?.length) {
+      return null;
+    }
+    return {
+      ...(options.include?.length ? { include: options.include } : {}),
+      ...(options.exclude?.length ? { exclude: options.exclude } : {})
+    };
+  }
+
+  private buildRunOptions(options: AccessibilityAuditOptions): Record<string, unknown> {
+    const accessibilityConfig = config.getAccessibilityConfig();
+    const tags = options.tags || accessibilityConfig.tags;
+    const disabled = [...accessibilityConfig.disableRules, ...(options.disableRules || [])];
+
+    const runOptions: Record<string, unknown> = {
+      rules: Object.fromEntries(disabled.map(rule => [rule, { enabled: false }]))
+    };
+    if (options.rules?.length) {
+      runOptions.runOnly = { type: 'rule', values: options.rules };
+    } else if (tags.length > 0) {
+      runOptions.runOnly = { type: 'tag', values: tags };
+    }
+    return runOptions;
+  }
+}
+
+export default new AccessibilityAuditor();
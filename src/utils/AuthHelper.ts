@@ -0,0 +1,69 @@
+import { WebDriver } from 'selenium-webdriver';
+
+import config from '../config/test.config.js';
+import LoginPage from '../pages/LoginPage.js';
+import ProductsPage from '../pages/ProductsPage.js';
+import type { UserCredentials } from '../types/index.js';
+
+// Cookie SauceDemo keeps the logged in username in
+const SESSION_COOKIE = 'session-username';
+
+// SauceDemo sessions last 10 minutes
+const SESSION_TTL = 10 * 60 * 1000;
+
+/**
+ * Authentication helper
+ * Logs suites in through the login form or, much faster, by setting
+ * SauceDemo's session cookie, depending on the login config
+ */
+class AuthHelper {
+  /**
+   * Log in the way the suite is configured to and land on the products page
+   * @param driver - WebDriver instance
+   * @param user - User to log in as
+   * @param suiteName - Title of the suite, looked up in login.suites
+   */
+  public async login(driver: WebDriver, user: UserCredentials, suiteName: string): Promise<void> {
+    if (config.getLoginMode(suiteName) === 'session') {
+      await this.loginWithSessionCookie(driver, user);
+      return;
+    }
+
+    const loginPage = new LoginPage(driver);
+    await loginPage.open();
+    await loginPage.login(user.username, user.password);
+  }
+
+  /**
+   * Log in by setting the session-username cookie and open /inventory.html
+   * Only for users the login form accepts, the cookie would get past a locked out user
+   * @param driver - WebDriver instance
+   * @param user - User to log in as
+   */
+  public async loginWithSessionCookie(driver: WebDriver, user: UserCredentials): Promise<void> {
+    if (user.expectedResult !== 'success') {
+      throw new Error(`Failed to log in as ${user.username}: the login form rejects this user`);
+    }
+
+    try {
+      // Cookies can only be set for the page's own origin
+      await driver.get(config.getBaseUrl());
+      await driver.manage().addCookie({
+        name: SESSION_COOKIE,
+        value: user.username,
+        path: '/',
+        expiry: new Date(Date.now() + SESSION_TTL)
+      });
+
+      await new ProductsPage(driver).navigateTo(new URL('/inventory.html', config.getBaseUrl()).toString());
+      const url = await driver.getCurrentUrl();
+      if (!url.includes('inventory.html')) {
+        throw new Error(`expected /inventory.html, landed on ${url}`);
+      }
+    } catch (error) {
+      throw new Error(`Failed to log in as ${user.username} with the session cookie: ${(error as Error).message}`);
+    }
+  }
+}
+
+export default new AuthHelper();
@@ -0,0 +1,24 @@
+import { WebDriver } from 'selenium-webdriver';
+
+import type { BidiConnection } from '../types/index.js';
+
+/**
+ * BiDi connector
+ * Hands out the WebDriver BiDi connection of sessions started with the webSocketUrl capability
+ */
+class BidiConnector {
+  /**
+   * Get a session's BiDi connection, opening it on first use
+   * @param driver - WebDriver session
+   * @returns BiDi connection, null when the session was started without webSocketUrl
+   */
+  public async connect(driver: WebDriver): Promise<BidiConnection | null> {
+    const capabilities = await driver.getCapabilities();
+    if (!capabilities.get('webSocketUrl')) return null;
+
+    // The typings declare the socket as a DOM WebSocket, selenium-webdriver opens a ws one
+    return await driver.getBidi() as unknown as BidiConnection;
+  }
+}
+
+export default new BidiConnector();
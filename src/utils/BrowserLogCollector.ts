@@ -0,0 +1,220 @@
+import { logging, WebDriver } from 'selenium-webdriver';
+
+import type { BrowserLogs, ConsoleEntry, NetworkEntry } from '../types/index.js';
+
+import BidiConnector from './BidiConnector.js';
+
+// Most console entries and requests a BiDi buffer keeps, the oldest are dropped beyond it
+const MAX_BUFFERED_ENTRIES = 1000;
+
+interface ResponseSummary {
+  status: number;
+  statusText: string;
+  mimeType: string;
+}
+
+// BiDi log.entryAdded and network.* event
+interface BidiEvent {
+  method?: string;
+  params?: {
+    timestamp: number;
+    level?: string;
+    text?: string | null;
+    type?: string;
+    request?: { request: string; url: string; method: string };
+    response?: ResponseSummary;
+    errorText?: string;
+  };
+}
+
+// Chrome performance log message carrying a DevTools Network event
+interface DevToolsMessage {
+  message: {
+    method: string;
+    params: {
+      requestId: string;
+      timestamp: number;
+      request?: { url: string; method: string };
+      response?: ResponseSummary;
+      errorText?: string;
+    };
+  };
+}
+
+// Entries buffered from BiDi events until the next collect()
+interface BidiBuffer {
+  console: ConsoleEntry[];
+  requests: Map<string, NetworkEntry>;
+}
+
+/**
+ * Browser log collector
+ * Gathers console entries and network request/response summaries for a session,
+ * from Chrome/Edge logging prefs or from BiDi log.entryAdded and network events
+ */
+class BrowserLogCollector {
+  private bidiBuffers: WeakMap<WebDriver, BidiBuffer> = new WeakMap();
+
+  /**
+   * Start listening to a new session
+   * BiDi sessions (webSocketUrl capability) are subscribed to log and network events;
+   * Chromium sessions are read from their logging prefs on collect()
+   * @param driver - WebDriver session
+   */
+  public async attach(driver: WebDriver): Promise<void> {
+    try {
+      const bidi = await BidiConnector.connect(driver);
+      if (!bidi) return;
+      const buffer: BidiBuffer = { console: [], requests: new Map() };
+
+      await bidi.subscribe([
+        'log.entryAdded',
+        'network.beforeRequestSent',
+        'network.responseCompleted',
+        'network.fetchError'
+      ]);
+      bidi.socket.on('message', data => this.handleBidiEvent(buffer, data));
+      this.bidiBuffers.set(driver, buffer);
+    } catch (error) {
+      console.warn('Could not subscribe to BiDi log events:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Collect the console and network entries recorded since the last collect()
+   * @param driver - WebDriver session
+   * @returns Console and network entries, empty when the browser exposes neither
+   */
+  public async collect(driver: WebDriver): Promise<BrowserLogs> {
+    const buffer = this.bidiBuffers.get(driver);
+    if (buffer) {
+      const logs = { console: buffer.console, network: [...buffer.requests.values()] };
+      buffer.console = [];
+      buffer.requests = new Map();
+      return logs;
+    }
+
+    return {
+      console: await this.readConsoleLog(driver),
+      network: await this.readPerformanceLog(driver)
+    };
+  }
+
+  /**
+   * Drop everything recorded so far, e.g. before each test or before a session is reused
+   * @param driver - WebDriver session
+   */
+  public async clear(driver: WebDriver): Promise<void> {
+    await this.collect(driver);
+  }
+
+  private async readConsoleLog(driver: WebDriver): Promise<ConsoleEntry[]> {
+    try {
+      const entries = await driver.manage().logs().get(logging.Type.BROWSER);
+      return entries.map(entry => ({
+        timestamp: entry.timestamp,
+        level: entry.level.name,
+        message: entry.message
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  // Summarize DevTools Network events from the Chromium performance log, one entry per request
+  private async readPerformanceLog(driver: WebDriver): Promise<NetworkEntry[]> {
+    let entries: logging.Entry[];
+    try {
+      entries = await driver.manage().logs().get(logging.Type.PERFORMANCE);
+    } catch {
+      return [];
+    }
+
+    const requests = new Map<string, NetworkEntry & { started?: number }>();
+    for (const entry of entries) {
+      let message: DevToolsMessage['message'];
+      try {
+        message = (JSON.parse(entry.message) as DevToolsMessage).message;
+      } catch {
+        continue;
+      }
+
+      const params = message.params;
+      const request = requests.get(params.requestId);
+
+      if (message.method === 'Network.requestWillBeSent' && params.request && !params.request.url.startsWith('data:')) {
+        requests.set(params.requestId, {
+          timestamp: entry.timestamp,
+          method: params.request.method,
+          url: params.request.url,
+          started: params.timestamp
+        });
+      } else if (message.method === 'Network.responseReceived' && request && params.response) {
+        Object.assign(request, this.summarizeResponse(params.response));
+      } else if (message.method === 'Network.loadingFinished' && request?.started !== undefined) {
+        request.duration = Math.round((params.timestamp - request.started) * 1000);
+      } else if (message.method === 'Network.loadingFailed' && request) {
+        request.error = params.errorText;
+      }
+    }
+
+    return [...requests.values()].map(({ started: _started, ...request }) => request);
+  }
+
+  private handleBidiEvent(buffer: BidiBuffer, data: Buffer): void {
+    let event: BidiEvent;
+    try {
+      event = JSON.parse(data.toString()) as BidiEvent;
+    } catch {
+      return;
+    }
+
+    const params = event.params;
+    if (!params) return;
+
+    if (event.method === 'log.entryAdded') {
+      buffer.console.push({
+        timestamp: params.timestamp,
+        level: (params.level || 'info').toUpperCase(),
+        message: params.text ?? '',
+        source: params.type
+      });
+      if (buffer.console.length > MAX_BUFFERED_ENTRIES) {
+        buffer.console.shift();
+      }
+      return;
+    }
+
+    if (!params.request) return;
+    const id = params.request.request;
+
+    if (event.method === 'network.beforeRequestSent') {
+      buffer.requests.set(id, {
+        timestamp: params.timestamp,
+        method: params.request.method,
+        url: params.request.url
+      });
+      // Maps iterate in insertion order, the first key is the oldest request
+      if (buffer.requests.size > MAX_BUFFERED_ENTRIES) {
+        buffer.requests.delete(buffer.requests.keys().next().value as string);
+      }
+      return;
+    }
+
+    const request = buffer.requests.get(id);
+    if (!request) return;
+
+    if (event.method === 'network.responseCompleted' && params.response) {
+      Object.assign(request, this.summarizeResponse(params.response));
+      request.duration = params.timestamp - request.timestamp;
+    } else if (event.method === 'network.fetchError') {
+      request.error = params.errorText;
+    }
+  }
+
+  private summarizeResponse(response: ResponseSummary): ResponseSummary {
+    return { status: response.status, statusText: response.statusText, mimeType: response.mimeType };
+  }
+}
+
+export default new BrowserLogCollector();
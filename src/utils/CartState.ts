@@ -0,0 +1,114 @@
+import { WebDriver } from 'selenium-webdriver';
+
+import { CATALOG } from '../config/product.catalog.js';
+import config from '../config/test.config.js';
+
+// localStorage entry SauceDemo keeps the cart in, a JSON array of item ids
+const CART_KEY = 'cart-contents';
+
+/**
+ * Cart state helper
+ * Reads and writes SauceDemo's cart in localStorage by product name, so tests
+ * can start with a known cart instead of clicking Add to cart per product.
+ * The page only picks the stored cart up on its next load.
+ */
+class CartState {
+  /**
+   * Resolve a product name to its SauceDemo item id
+   * @param productName - Product name as shown on the products page
+   * @returns Item id, as stored in the cart and used in /inventory-item.html?id=N
+   */
+  public getProductId(productName: string): number {
+    const item = CATALOG.find(entry => entry.name === productName);
+    if (!item) {
+      throw new Error(`Unknown product: ${productName}`);
+    }
+    return item.id;
+  }
+
+  /**
+   * Resolve an item id to its product name
+   * @param productId - SauceDemo item id
+   * @returns Product name
+   */
+  public getProductName(productId: number): string {
+    const item = CATALOG.find(entry => entry.id === productId);
+    if (!item) {
+      throw new Error(`Unknown product id: ${productId}`);
+    }
+    return item.name;
+  }
+
+  /**
+   * Replace the stored cart with the given products
+   * Reload the page or navigate for the badge and product buttons to show it
+   * @param driver - WebDriver instance, on a SauceDemo page
+   * @param productNames - Products to put in the cart, in order
+   */
+  public async setCart(driver: WebDriver, productNames: string[]): Promise<void> {
+    const ids = productNames.map(name => this.getProductId(name));
+    try {
+      await this.ensureOnApp(driver);
+      await driver.executeScript(
+        'window.localStorage.setItem(arguments[0], arguments[1]);',
+        CART_KEY,
+        JSON.stringify(ids)
+      );
+    } catch (error) {
+      throw new Error(`Failed to set cart contents: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Read the stored cart
+   * @param driver - WebDriver instance, on a SauceDemo page
+   * @returns Item ids in the order they were added
+   */
+  public async getCartIds(driver: WebDriver): Promise<number[]> {
+    try {
+      await this.ensureOnApp(driver);
+      const stored = await driver.executeScript<string | null>(
+        'return window.localStorage.getItem(arguments[0]);',
+        CART_KEY
+      );
+      const ids: unknown = JSON.parse(stored || '[]');
+      return Array.isArray(ids) ? ids.map(Number) : [];
+    } catch (error) {
+      throw new Error(`Failed to read cart contents: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Read the stored cart by product name
+   * @param driver - WebDriver instance, on a SauceDemo page
+   * @returns Product names in the order they were added
+   */
+  public async getCart(driver: WebDriver): Promise<string[]> {
+    const ids = await this.getCartIds(driver);
+    return ids.map(id => this.getProductName(id));
+  }
+
+  /**
+   * Empty the stored cart, the same as SauceDemo's Reset App State
+   * @param driver - WebDriver instance, on a SauceDemo page
+   */
+  public async clear(driver: WebDriver): Promise<void> {
+    try {
+      await this.ensureOnApp(driver);
+      await driver.executeScript('window.localStorage.removeItem(arguments[0]);', CART_KEY);
+    } catch (error) {
+      throw new Error(`Failed to clear cart contents: ${(error as Error).message}`);
+    }
+  }
+
+  // localStorage is per origin, so the browser has to be on the app to reach the cart
+  private async ensureOnApp(driver: WebDriver): Promise<void> {
+    const appOrigin = new URL(config.getBaseUrl()).origin;
+    const url = await driver.getCurrentUrl();
+    if (!url.startsWith(appOrigin)) {
+      throw new Error(`browser is on ${url}, not on ${appOrigin}`);
+    }
+  }
+}
+
+export default new CartState();
@@ -0,0 +1,95 @@
+import { By } from 'selenium-webdriver';
+
+import type { LocatorCandidate } from '../types/index.js';
+
+// Quote a value for the suggested code, e.g. 'shopping-cart-link'
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+// Quote a value as an XPath string literal, which has no escapes
+function xpathLiteral(value: string): string {
+  if (!value.includes("'")) return `'${value}'`;
+  if (!value.includes('"')) return `"${value}"`;
+  return `concat('${value.split("'").join(`', "'", '`)}')`;
+}
+
+/**
+ * Locator with fallbacks
+ * A primary locator plus ordered fallbacks, tried in turn when the primary finds
+ * nothing, so a markup change does not break every test using the element.
+ * BasePage records which fallback healed the lookup.
+ *
+ * new Locator('cart link', By.css('.shopping_cart_link')).orDataTest('shopping-cart-link').orText('Cart')
+ */
+export default class Locator {
+  public readonly name: string;
+  private readonly candidates: LocatorCandidate[];
+
+  /**
+   * @param name - Name shown in the healed locator warning, e.g. 'login button'
+   * @param primary - Locator the page object relies on
+   */
+  constructor(name: string, primary: By) {
+    this.name = name;
+    this.candidates = [{ strategy: 'primary', by: primary, code: Locator.describe(primary) }];
+  }
+
+  // Fall back to the data-test attribute SauceDemo puts on most elements
+  public orDataTest(value: string): Locator {
+    const selector = `[data-test="${value}"]`;
+    return this.or('dataTest', By.css(selector), `By.css(${quote(selector)})`);
+  }
+
+  public orId(id: string): Locator {
+    return this.or('id', By.id(id), `By.id(${quote(id)})`);
+  }
+
+  public orCss(selector: string): Locator {
+    return this.or('css', By.css(selector), `By.css(${quote(selector)})`);
+  }
+
+  /**
+   * Fall back to the element's own visible text
+   * @param text - Text of the element, compared with whitespace normalized
+   * @param tag - Element name to narrow the match to, e.g. button
+   */
+  public orText(text: string, tag: string = '*'): Locator {
+    const xpath = `//${tag}[normalize-space(text())=${xpathLiteral(text)}]`;
+    return this.or('text', By.xpath(xpath), `By.xpath(${quote(xpath)})`);
+  }
+
+  // Get the primary locator followed by the fallbacks, in the order they are tried
+  public getCandidates(): LocatorCandidate[] {
+    return [...this.candidates];
+  }
+
+  public toString(): string {
+    return `${this.name} ${this.candidates[0].by.toString()}`;
+  }
+
+  /**
+   * Write a By as the code that builds it, for healing suggestions
+   * @param by - Locator built with By.id, By.css, By.xpath and the like
+   * @returns Code such as By.css('.shopping_cart_link')
+   */
+  public static describe(by: By): string {
+    const builders: Record<string, string> = {
+      'css selector': 'css',
+      'xpath': 'xpath',
+      'link text': 'linkText',
+      'partial link text': 'partialLinkText'
+    };
+    // By.id is a css selector under the hood, show it as written
+    const id = by.using === 'css selector' ? /^\*\[id="(.+)"\]$/.exec(by.value) : null;
+    if (id) {
+      return `By.id(${quote(id[1])})`;
+    }
+    return `By.${builders[by.using] ?? by.using}(${quote(by.value)})`;
+  }
+
+  private or(strategy: LocatorCandidate['strategy'], by: By, code: string): Locator {
+    this.candidates.push({ strategy, by, code });
+    return this;
+  }
+}
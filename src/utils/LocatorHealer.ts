@@ -0,0 +1,100 @@
+import { By, WebDriver, WebElement } from 'selenium-webdriver';
+
+import type { HealedLocator, LocatorCandidate } from '../types/index.js';
+
+import Locator from './Locator.js';
+
+/**
+ * Locator healer
+ * Finds elements through a Locator's fallbacks when its primary finds nothing,
+ * and keeps a healed locator warning per page object and locator for the report
+ */
+class LocatorHealer {
+  private healings: HealedLocator[] = [];
+
+  /**
+   * Find an element, trying the primary and then each fallback until one matches
+   * @param driver - WebDriver instance
+   * @param locator - Locator with fallbacks
+   * @param timeout - Time to keep trying, in ms
+   * @param page - Page object name, shown in the warning
+   * @returns First element matched by the first candidate that finds one
+   */
+  public async find(driver: WebDriver, locator: Locator, timeout: number, page: string): Promise<WebElement> {
+    const candidates = locator.getCandidates();
+    // Probe without the implicit wait, every candidate that finds nothing would block for it
+    // and driver.wait cannot cut a probe short, so the timeout would not hold
+    const { implicit } = await driver.manage().getTimeouts();
+    await driver.manage().setTimeouts({ implicit: 0 });
+
+    let match: unknown;
+    try {
+      match = await driver.wait(async () => {
+        for (const candidate of candidates) {
+          const elements = await driver.findElements(candidate.by);
+          if (elements.length > 0) {
+            return { candidate, element: elements[0] };
+          }
+        }
+        return null;
+      }, timeout, `Element not found: ${locator.toString()}`);
+    } finally {
+      await driver.manage().setTimeouts({ implicit });
+    }
+    // driver.wait only resolves once the condition returned a match
+    const { candidate, element } = match as { candidate: LocatorCandidate; element: WebElement };
+
+    if (candidate.strategy !== 'primary') {
+      await this.recordHealing(locator, candidate, element, page);
+    }
+    return element;
+  }
+
+  /**
+   * Take the healed locator warnings made since the last call
+   * @returns Warnings, one per page object and locator
+   */
+  public takeHealings(): HealedLocator[] {
+    return this.healings.splice(0);
+  }
+
+  private async recordHealing(
+    locator: Locator,
+    candidate: LocatorCandidate,
+    element: WebElement,
+    page: string
+  ): Promise<void> {
+    const primary = locator.getCandidates()[0].code;
+    console.warn(`Healed locator ${page}.${locator.name}: ${primary} found nothing, used ${candidate.code}`);
+
+    if (this.healings.some(healing => healing.page === page && healing.locator === locator.name)) return;
+    this.healings.push({
+      page,
+      locator: locator.name,
+      primary,
+      strategy: candidate.strategy,
+      fallback: candidate.code,
+      suggestion: await this.suggest(element, candidate),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Prefer the element's data-test attribute, then its id, over the fallback that found it
+  private async suggest(element: WebElement, candidate: LocatorCandidate): Promise<string> {
+    try {
+      const dataTest = await element.getAttribute('data-test');
+      if (dataTest) {
+        return Locator.describe(By.css(`[data-test="${dataTest}"]`));
+      }
+      const id = await element.getAttribute('id');
+      if (id) {
+        return Locator.describe(By.id(id));
+      }
+    } catch (error) {
+      console.warn('Could not read attributes for a locator suggestion:', (error as Error).message);
+    }
+    return candidate.code;
+  }
+}
+
+export default new LocatorHealer();
@@ -0,0 +1,69 @@
+import { WebDriver } from 'selenium-webdriver';
+import chrome from 'selenium-webdriver/chrome.js';
+import edge from 'selenium-webdriver/edge.js';
+
+import { getNetworkProfile } from '../config/network.profiles.js';
+
+/**
+ * Network emulator
+ * Throttles, delays or cuts off a session's network through Chrome DevTools
+ * Protocol Network.emulateNetworkConditions, and remembers the active profile
+ */
+class NetworkEmulator {
+  private profiles: WeakMap<WebDriver, string> = new WeakMap();
+
+  /**
+   * Emulate a network profile until the next apply() or reset()
+   * @param driver - WebDriver instance, Chrome or Edge
+   * @param profileName - Network profile, e.g. 3g, slow-4g, high-latency, offline
+   */
+  public async apply(driver: WebDriver, profileName: string): Promise<void> {
+    const profile = getNetworkProfile(profileName);
+    try {
+      await this.emulate(driver, {
+        offline: profile.offline,
+        latency: profile.latency,
+        downloadThroughput: profile.downloadThroughput,
+        uploadThroughput: profile.uploadThroughput
+      });
+      this.profiles.set(driver, profile.name);
+    } catch (error) {
+      throw new Error(`Failed to emulate network profile ${profile.name}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Go back to the unthrottled network
+   * @param driver - WebDriver instance
+   */
+  public async reset(driver: WebDriver): Promise<void> {
+    if (!this.profiles.has(driver)) return;
+
+    try {
+      await this.emulate(driver, { offline: false, latency: 0, downloadThroughput: -1, uploadThroughput: -1 });
+      this.profiles.delete(driver);
+    } catch (error) {
+      throw new Error(`Failed to reset network conditions: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get the profile a session is emulating
+   * @param driver - WebDriver instance
+   * @returns Network profile name, undefined for an unthrottled network
+   */
+  public getProfile(driver: WebDriver): string | undefined {
+    return this.profiles.get(driver);
+  }
+
+  private async emulate(driver: WebDriver, conditions: object): Promise<void> {
+    // Chrome and Edge drivers can send DevTools Protocol commands, other browsers cannot
+    if (!(driver instanceof chrome.Driver || driver instanceof edge.Driver)) {
+      throw new Error('network emulation needs Chrome or Edge');
+    }
+    await driver.sendDevToolsCommand('Network.enable', {});
+    await driver.sendDevToolsCommand('Network.emulateNetworkConditions', conditions);
+  }
+}
+
+export default new NetworkEmulator();
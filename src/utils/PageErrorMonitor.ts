@@ -0,0 +1,154 @@
+import { WebDriver } from 'selenium-webdriver';
+
+import config from '../config/test.config.js';
+import type { PageError } from '../types/index.js';
+
+import BidiConnector from './BidiConnector.js';
+
+// BiDi log.entryAdded and network.responseCompleted event
+interface BidiEvent {
+  method?: string;
+  params?: {
+    timestamp: number;
+    type?: string;
+    text?: string | null;
+    stackTrace?: { callFrames: Array<{ url: string }> };
+    request?: { url: string };
+    response?: { status: number; statusText: string };
+  };
+}
+
+/**
+ * Page error monitor
+ * Records uncaught page exceptions and 4xx/5xx responses over WebDriver BiDi,
+ * skipping anything matched by the pageErrors.allowlist patterns
+ */
+class PageErrorMonitor {
+  private errors: WeakMap<WebDriver, PageError[]> = new WeakMap();
+
+  /**
+   * Start recording page errors for a session started with BiDi enabled
+   * @param driver - WebDriver session
+   */
+  public async attach(driver: WebDriver): Promise<void> {
+    try {
+      const bidi = await BidiConnector.connect(driver);
+      if (!bidi) {
+        console.warn('Session has no BiDi connection, page errors are not recorded');
+        return;
+      }
+      const errors: PageError[] = [];
+
+      await bidi.subscribe(['log.entryAdded', 'network.responseCompleted']);
+      bidi.socket.on('message', data => this.handleBidiEvent(errors, data));
+      this.errors.set(driver, errors);
+    } catch (error) {
+      console.warn('Could not subscribe to BiDi page error events:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Check whether page errors are being recorded for a session
+   * @param driver - WebDriver session
+   */
+  public isAttached(driver: WebDriver): boolean {
+    return this.errors.has(driver);
+  }
+
+  /**
+   * Get the page errors recorded since the last clear()
+   * @param driver - WebDriver session
+   * @returns Recorded errors, oldest first
+   */
+  public getErrors(driver: WebDriver): PageError[] {
+    return [...(this.errors.get(driver) || [])];
+  }
+
+  /**
+   * Forget recorded errors, e.g. at the start of a test
+   * @param driver - WebDriver session
+   */
+  public clear(driver: WebDriver): void {
+    this.errors.get(driver)?.splice(0);
+  }
+
+  /**
+   * Wait pageErrors.settleTime ms, BiDi events arrive asynchronously and the ones
+   * the browser already sent may not be recorded yet
+   * @param driver - WebDriver session
+   */
+  public async settle(driver: WebDriver): Promise<void> {
+    const { settleTime } = config.getPageErrorsConfig();
+    if (settleTime > 0) {
+      await driver.sleep(settleTime);
+    }
+  }
+
+  /**
+   * Assert that no page errors were recorded since the last clear(), once they settled
+   * @param driver - WebDriver session
+   * @throws Error listing every recorded page error
+   */
+  public async expectNoPageErrors(driver: WebDriver): Promise<void> {
+    await this.settle(driver);
+    const errors = this.getErrors(driver);
+    if (errors.length > 0) {
+      throw new Error(
+        `Expected no page errors, found ${errors.length}:\n${errors.map(e => `  - ${this.describe(e)}`).join('\n')}`
+      );
+    }
+  }
+
+  /**
+   * One-line description of a page error
+   * @param error - Recorded page error
+   */
+  public describe(error: PageError): string {
+    return error.type === 'http'
+      ? `HTTP ${error.status} ${error.message} ${error.url}`
+      : `Uncaught ${error.message}${error.url ? ` (${error.url})` : ''}`;
+  }
+
+  private handleBidiEvent(errors: PageError[], data: Buffer): void {
+    let event: BidiEvent;
+    try {
+      event = JSON.parse(data.toString()) as BidiEvent;
+    } catch {
+      return;
+    }
+
+    const params = event.params;
+    let error: PageError | undefined;
+
+    if (event.method === 'log.entryAdded' && params?.type === 'javascript') {
+      error = {
+        type: 'exception',
+        timestamp: params.timestamp,
+        message: params.text ?? '',
+        url: params.stackTrace?.callFrames[0]?.url || undefined
+      };
+    } else if (event.method === 'network.responseCompleted' && params?.response && params.response.status >= 400) {
+      error = {
+        type: 'http',
+        timestamp: params.timestamp,
+        message: params.response.statusText,
+        url: params.request?.url,
+        status: params.response.status
+      };
+    }
+
+    if (error && !this.isAllowed(error)) {
+      errors.push(error);
+    }
+  }
+
+  // Allowlist patterns are matched against the message and the URL
+  private isAllowed(error: PageError): boolean {
+    return config.getPageErrorsConfig().allowlist.some(pattern => {
+      const regex = new RegExp(pattern);
+      return regex.test(error.message) || (error.url !== undefined && regex.test(error.url));
+    });
+  }
+}
+
+export default new PageErrorMonitor();
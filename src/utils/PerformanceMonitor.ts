@@ -0,0 +1,168 @@
+import { WebDriver } from 'selenium-webdriver';
+
+import config from '../config/test.config.js';
+import type { PerformanceBreach, PerformanceBudget, PerformanceMetric, PerformanceRecord, PerformanceTimings } from '../types/index.js';
+
+import NetworkEmulator from './NetworkEmulator.js';
+
+// Reads the navigation entry and the latest LCP entry once the document has loaded, null before
+const READ_TIMINGS_SCRIPT = `
+  const done = arguments[arguments.length - 1];
+  const [navigation] = performance.getEntriesByType('navigation');
+  if (!navigation || navigation.loadEventEnd === 0) {
+    done(null);
+    return;
+  }
+
+  const snapshot = {
+    timeOrigin: performance.timeOrigin,
+    url: location.href,
+    path: location.pathname,
+    timings: {
+      ttfb: navigation.responseStart,
+      domContentLoaded: navigation.domContentLoadedEventEnd,
+      load: navigation.loadEventEnd,
+      lcp: null
+    }
+  };
+  if (!(PerformanceObserver.supportedEntryTypes || []).includes('largest-contentful-paint')) {
+    done(snapshot);
+    return;
+  }
+
+  let finished = false;
+  const finish = () => {
+    if (!finished) {
+      finished = true;
+      done(snapshot);
+    }
+  };
+  new PerformanceObserver(list => {
+    const entries = list.getEntries();
+    snapshot.timings.lcp = entries[entries.length - 1].startTime;
+    finish();
+  }).observe({ type: 'largest-contentful-paint', buffered: true });
+  // Documents without any contentful paint never report one
+  setTimeout(finish, 100);`;
+
+// Timings of the current document and where it came from
+interface DocumentTimings {
+  timeOrigin: number;
+  url: string;
+  path: string;
+  timings: PerformanceTimings;
+}
+
+/**
+ * Performance monitor
+ * Reads navigation and paint timings from the browser's Performance API after
+ * page object transitions and checks them against the budgets in config
+ */
+class PerformanceMonitor {
+  private records: PerformanceRecord[] = [];
+
+  /**
+   * Get the time origin of the current document, which changes whenever a new document loads
+   * @param driver - WebDriver session
+   * @returns Time origin, null when timings are not recorded or cannot be read
+   */
+  public async getTimeOrigin(driver: WebDriver): Promise<number | null> {
+    if (!config.getPerformanceConfig().enabled) return null;
+
+    try {
+      return await driver.executeScript<number>('return performance.timeOrigin;');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the timings of the current document, waiting for it to finish loading
+   * @param driver - WebDriver session
+   * @returns Timings in ms from the start of the navigation
+   */
+  public async getTimings(driver: WebDriver): Promise<PerformanceTimings> {
+    try {
+      return (await this.readDocumentTimings(driver)).timings;
+    } catch (error) {
+      throw new Error(`Failed to read performance timings: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Record the timings of the document an action loaded
+   * Nothing is recorded when the action stayed on the same document, e.g. a rejected login
+   * @param driver - WebDriver session
+   * @param action - Page object action, e.g. LoginPage.login
+   * @param previousOrigin - Time origin of the document before the action
+   */
+  public async record(driver: WebDriver, action: string, previousOrigin: number | null): Promise<void> {
+    if (!config.getPerformanceConfig().enabled) return;
+
+    try {
+      if (await this.getTimeOrigin(driver) === previousOrigin) return;
+
+      const { url, path, timings } = await this.readDocumentTimings(driver);
+      const budget = this.getBudget(path);
+      this.records.push({
+        action,
+        url,
+        path,
+        timestamp: new Date().toISOString(),
+        timings,
+        budget,
+        breaches: this.findBreaches(timings, budget),
+        network: NetworkEmulator.getProfile(driver)
+      });
+    } catch (error) {
+      console.warn(`Could not record performance timings after ${action}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Get the budget of a page, its own limits on top of the default ones
+   * @param path - URL path of the page, e.g. /inventory.html
+   */
+  public getBudget(path: string): PerformanceBudget {
+    const budgets = config.getPerformanceConfig().budgets;
+    return { ...budgets.default, ...budgets[path] };
+  }
+
+  /**
+   * Take the records made since the last call
+   * @returns Records, oldest first
+   */
+  public takeRecords(): PerformanceRecord[] {
+    return this.records.splice(0);
+  }
+
+  // Poll until the load event has finished, its end time is 0 until then
+  private async readDocumentTimings(driver: WebDriver): Promise<DocumentTimings> {
+    // wait() only resolves once the script returns the timings instead of null
+    const snapshot = await driver.wait(
+      () => driver.executeAsyncScript<DocumentTimings | null>(READ_TIMINGS_SCRIPT),
+      config.getTimeoutConfig().pageLoad,
+      'Document did not finish loading'
+    ) as DocumentTimings;
+
+    const { ttfb, domContentLoaded, load, lcp } = snapshot.timings;
+    return {
+      ...snapshot,
+      timings: {
+        ttfb: Math.round(ttfb),
+        domContentLoaded: Math.round(domContentLoaded),
+        load: Math.round(load),
+        lcp: lcp === null ? null : Math.round(lcp)
+      }
+    };
+  }
+
+  private findBreaches(timings: PerformanceTimings, budget: PerformanceBudget): PerformanceBreach[] {
+    return (Object.entries(budget) as Array<[PerformanceMetric, number]>).flatMap(([metric, limit]) => {
+      const value = timings[metric];
+      return value !== null && value > limit ? [{ metric, value, budget: limit }] : [];
+    });
+  }
+}
+
+export default new PerformanceMonitor();
@@ -1,13 +1,18 @@
-import { writeFile, mkdir } from 'fs/promises';
+import { writeFile, mkdir, readdir, readFile, rm } from 'fs/promises';
 import { existsSync, readFileSync } from 'fs';
 import path from 'path';
 import { platform } from 'os';
 
-import type { ReportData, TestResult } from '../types/index.js';
+import config from '../config/test.config.js';
+import type { AccessibilityAudit, AccessibilityViolation, Attachment, HealedLocator, NetworkEntry, PageError, PerformanceMetric, PerformanceRecord, ReportData, ReportFormat, RunResults, TestResult, TestTrend, TrendData } from '../types/index.js';
+
+import PageErrorMonitor from './PageErrorMonitor.js';
+import RunHistory from './RunHistory.js';
 
 /**
  * Report Generator utility
- * Creates comprehensive HTML test reports with statistics and screenshots
+ * Creates comprehensive HTML test reports with statistics and screenshots,
+ * plus report.json and JUnit XML outputs for dashboards and CI
  */
 class ReportGenerator {
   private reportDir: string;
@@ -17,6 +22,11 @@ class ReportGenerator {
     this.ensureDirectoryExists();
   }
 
+  // Results of the current run, one file per Mocha process
+  private getResultsDirectory(): string {
+    return path.join(this.reportDir, 'results', config.getRunId());
+  }
+
   private ensureDirectoryExists(): void {
     if (!existsSync(this.reportDir)) {
       mkdir(this.reportDir, { recursive: true }).catch(err => {
@@ -25,29 +35,81 @@ class ReportGenerator {
     }
   }
 
+  /**
+   * Save the results this process ran, for mergeResults() in the main process
+   * A Mocha parallel worker runs the root afterAll after each of its spec files with
+   * its results so far, so every save replaces the process's previous one
+   * @param results - Test results and Grid nodes of this process
+   */
+  public async saveResults(results: RunResults): Promise<void> {
+    const resultsDir = this.getResultsDirectory();
+    try {
+      await mkdir(resultsDir, { recursive: true });
+      await writeFile(path.join(resultsDir, `${process.pid}.json`), JSON.stringify(results), 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to save test results: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Merge the results every process of the run saved, then remove them
+   * @returns Test results and Grid nodes of the whole run, undefined when no process
+   * ran the root hooks, e.g. with --dry-run
+   */
+  public async mergeResults(): Promise<RunResults | undefined> {
+    const resultsDir = this.getResultsDirectory();
+    if (!existsSync(resultsDir)) {
+      return undefined;
+    }
+
+    const merged: RunResults = { testResults: [], gridNodes: [] };
+    try {
+      const files = (await readdir(resultsDir)).filter(file => file.endsWith('.json')).sort();
+      for (const file of files) {
+        const results = JSON.parse(await readFile(path.join(resultsDir, file), 'utf8')) as RunResults;
+        merged.testResults.push(...results.testResults);
+        merged.gridNodes.push(...results.gridNodes.filter(node => !merged.gridNodes.includes(node)));
+      }
+      await rm(resultsDir, { recursive: true, force: true });
+    } catch (error) {
+      throw new Error(`Failed to merge test results: ${(error as Error).message}`);
+    }
+    return merged;
+  }
+
   /**
    * Prepare report data with environment information
    * @param testResults - Array of test results
    * @param duration - Total test duration in milliseconds
+   * @param gridNodes - Remote Grid nodes the sessions ran on
    * @returns Formatted report data
    */
-  public prepareReportData(testResults: TestResult[], duration: number): ReportData {
+  public prepareReportData(
+    testResults: TestResult[],
+    duration: number,
+    gridNodes: string[] = []
+  ): ReportData {
     const passed = testResults.filter(t => t.status === 'passed').length;
     const failed = testResults.filter(t => t.status === 'failed').length;
     const skipped = testResults.filter(t => t.status === 'skipped').length;
+    const flaky = testResults.filter(t => t.status === 'flaky').length;
 
     return {
+      runId: config.getRunId(),
       timestamp: new Date().toISOString(),
       totalTests: testResults.length,
       passed,
       failed,
       skipped,
+      flaky,
       duration,
       testResults,
       environment: {
-        browser: process.env.BROWSER || 'chrome',
+        browser: config.getBrowserConfig().name,
         platform: platform(),
-        nodeVersion: process.version
+        nodeVersion: process.version,
+        remoteUrl: config.getBrowserConfig().remote?.url,
+        gridNodes: gridNodes.length > 0 ? gridNodes : undefined
       }
     };
   }
@@ -77,13 +139,164 @@ class ReportGenerator {
     }
   }
 
+  /**
+   * Record the run in the history store and generate every report format
+   * enabled in the reporting config
+   * @param runData - Formatted report data
+   * @returns Paths of the written reports
+   */
+  public async generateReports(runData: ReportData): Promise<string[]> {
+    const reportingConfig = config.getReportingConfig();
+    let reportData = runData;
+    try {
+      reportData = { ...runData, trends: await RunHistory.record(runData, reportingConfig.historySize, reportingConfig.historyMaxRuns) };
+    } catch (error) {
+      console.error('Failed to record run history:', (error as Error).message);
+    }
+
+    const writers: Record<ReportFormat, () => Promise<string>> = {
+      html: () => this.generateHtmlReport(reportData),
+      json: () => this.generateJsonReport(reportData),
+      junit: () => this.generateJUnitReport(reportData)
+    };
+
+    const paths: string[] = [];
+    for (const format of reportingConfig.formats) {
+      paths.push(await writers[format]());
+    }
+    return paths;
+  }
+
+  /**
+   * Generate machine-readable JSON report with the full report data
+   * @param reportData - Formatted report data
+   * @param reportName - Name for the report file
+   */
+  public async generateJsonReport(
+    reportData: ReportData,
+    reportName: string = 'report'
+  ): Promise<string> {
+    try {
+      this.ensureDirectoryExists();
+
+      const filePath = path.join(this.reportDir, `${reportName}.json`);
+      await writeFile(filePath, JSON.stringify(reportData, null, 2), 'utf8');
+
+      return filePath;
+    } catch (error) {
+      throw new Error(`Failed to generate JSON report: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Generate JUnit XML report, one testsuite per Mocha suite
+   * @param reportData - Formatted report data
+   * @param reportName - Name for the report file
+   */
+  public async generateJUnitReport(
+    reportData: ReportData,
+    reportName: string = 'junit'
+  ): Promise<string> {
+    try {
+      this.ensureDirectoryExists();
+
+      const filePath = path.join(this.reportDir, `${reportName}.xml`);
+      await writeFile(filePath, this.buildJUnitReport(reportData), 'utf8');
+
+      return filePath;
+    } catch (error) {
+      throw new Error(`Failed to generate JUnit report: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Build JUnit XML content
+   * @param data - Report data
+   * @returns XML string
+   */
+  private buildJUnitReport(data: ReportData): string {
+    const suites = new Map<string, TestResult[]>();
+    for (const test of data.testResults) {
+      suites.set(test.suiteName, [...(suites.get(test.suiteName) || []), test]);
+    }
+
+    const properties = Object.entries(data.environment)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => {
+        const text = Array.isArray(value) ? value.join(', ') : String(value);
+        return `      <property name="${this.escapeXml(name)}" value="${this.escapeXml(text)}"/>`;
+      })
+      .join('\n');
+
+    const testsuites = [...suites.entries()].map(([suiteName, tests]) => {
+      const failures = tests.filter(t => t.status === 'failed').length;
+      const skipped = tests.filter(t => t.status === 'skipped').length;
+      const time = tests.reduce((sum, t) => sum + t.duration, 0);
+
+      return `  <testsuite name="${this.escapeXml(suiteName)}" tests="${tests.length}" failures="${failures}" ` +
+        `errors="0" skipped="${skipped}" time="${this.toSeconds(time)}" timestamp="${data.timestamp}">\n` +
+        `    <properties>\n${properties}\n    </properties>\n` +
+        `${tests.map(test => this.buildJUnitTestCase(test)).join('\n')}\n` +
+        '  </testsuite>';
+    });
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      `<testsuites name="SauceDemo Tests" tests="${data.totalTests}" failures="${data.failed}" ` +
+      `errors="0" skipped="${data.skipped}" time="${this.toSeconds(data.duration)}" timestamp="${data.timestamp}">\n` +
+      `${testsuites.join('\n')}\n` +
+      '</testsuites>\n';
+  }
+
+  // Build a JUnit testcase with its failure and attachment paths
+  private buildJUnitTestCase(test: TestResult): string {
+    const children: string[] = [];
+
+    if (test.status === 'failed') {
+      children.push(this.buildJUnitFailure('failure', test.error));
+    } else if (test.status === 'skipped') {
+      children.push('      <skipped/>');
+    }
+
+    // Surefire's rerun elements: flakyFailure for tests that passed on retry, rerunFailure otherwise
+    const rerunElement = test.status === 'flaky' ? 'flakyFailure' : 'rerunFailure';
+    for (const attempt of test.failedAttempts || []) {
+      children.push(this.buildJUnitFailure(rerunElement, attempt.error));
+    }
+
+    // Jenkins and GitLab pick attachments up from [[ATTACHMENT|path]] lines
+    const attachments = [
+      ...(test.failedAttempts || []).flatMap(attempt => attempt.attachments || []),
+      ...(test.attachments || [])
+    ];
+    if (attachments.length > 0) {
+      const lines = attachments.map(attachment => `[[ATTACHMENT|${this.escapeXml(path.resolve(attachment.path))}]]`);
+      children.push(`      <system-out>${lines.join('\n')}</system-out>`);
+    }
+
+    const open = `    <testcase name="${this.escapeXml(test.testName)}" classname="${this.escapeXml(test.suiteName)}" ` +
+      `time="${this.toSeconds(test.duration)}"`;
+    return children.length > 0
+      ? `${open}>\n${children.join('\n')}\n    </testcase>`
+      : `${open}/>`;
+  }
+
+  private buildJUnitFailure(element: string, error: string = 'Test failed'): string {
+    const firstLine = error.split('\n')[0];
+    return `      <${element} message="${this.escapeXml(firstLine)}">${this.escapeXml(error)}</${element}>`;
+  }
+
+  private toSeconds(milliseconds: number): string {
+    return (milliseconds / 1000).toFixed(3);
+  }
+
   /**
    * Build HTML report content
    * @param data - Report data
    * @returns HTML string
    */
   private buildHtmlReport(data: ReportData): string {
-    const passRate = ((data.passed / data.totalTests) * 100).toFixed(2);
+    const passRate = (((data.passed + data.flaky) / data.totalTests) * 100).toFixed(2);
+    const flakyTests = data.testResults.filter(t => t.status === 'flaky');
     const durationSeconds = (data.duration / 1000).toFixed(2);
 
     return `<!DOCTYPE html>
@@ -160,6 +373,7 @@ class ReportGenerator {
         .summary-card.total .value { color: #667eea; }
         .summary-card.passed .value { color: #10b981; }
         .summary-card.failed .value { color: #ef4444; }
+        .summary-card.flaky .value { color: #f59e0b; }
         .summary-card.duration .value { font-size: 2em; }
         .progress-bar {
             width: 100%;
@@ -258,6 +472,19 @@ class ReportGenerator {
             background: #fee2e2;
             color: #991b1b;
         }
+        .status-flaky {
+            background: #ffedd5;
+            color: #9a3412;
+        }
+        .attempt {
+            border-left: 4px solid #f59e0b;
+            padding: 10px 15px;
+            margin-bottom: 15px;
+        }
+        .attempt h4 {
+            margin-bottom: 10px;
+            color: #9a3412;
+        }
         .status-skipped {
             background: #fef3c7;
             color: #92400e;
@@ -290,6 +517,128 @@ class ReportGenerator {
             border-radius: 8px;
             box-shadow: 0 4px 12px rgba(0,0,0,0.1);
         }
+        .snapshot-diff {
+            margin-top: 15px;
+        }
+        .triptych {
+            display: grid;
+            grid-template-columns: repeat(3, 1fr);
+            gap: 10px;
+        }
+        .triptych figure {
+            margin: 0;
+        }
+        .triptych img {
+            max-width: 100%;
+            border: 1px solid #e5e7eb;
+        }
+        .triptych figcaption {
+            text-align: center;
+            font-size: 0.85em;
+            color: #6b7280;
+        }
+        .video {
+            display: block;
+            max-width: 100%;
+            margin-top: 15px;
+            border-radius: 8px;
+        }
+        .trends-section {
+            padding: 30px 40px;
+            border-top: 1px solid #e5e7eb;
+        }
+        .trends-section h2 {
+            margin-bottom: 15px;
+            color: #667eea;
+        }
+        .trends-section h3 {
+            margin: 20px 0 10px;
+            color: #666;
+        }
+        .trend-table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        .trend-table td {
+            padding: 6px 10px;
+            border-bottom: 1px solid #f1f3f5;
+        }
+        .trend-list li {
+            margin-left: 20px;
+            padding: 3px 0;
+        }
+        .sparkline polyline {
+            fill: none;
+            stroke: #667eea;
+            stroke-width: 1.5;
+        }
+        .sparkline circle { fill: #667eea; }
+        .sparkline circle.failed { fill: #ef4444; }
+        .sparkline circle.passed { fill: #10b981; }
+        .attachments {
+            margin: 10px 0 15px 20px;
+        }
+        .attachments li {
+            padding: 2px 0;
+        }
+        .browser-logs {
+            margin-bottom: 15px;
+        }
+        .impact {
+            display: inline-block;
+            padding: 2px 8px;
+            border-radius: 10px;
+            font-size: 0.8em;
+            font-weight: 600;
+            text-transform: uppercase;
+        }
+        .impact-critical {
+            background: #fee2e2;
+            color: #991b1b;
+        }
+        .impact-serious {
+            background: #ffedd5;
+            color: #9a3412;
+        }
+        .impact-moderate {
+            background: #fef3c7;
+            color: #92400e;
+        }
+        .impact-minor {
+            background: #e5e7eb;
+            color: #374151;
+        }
+        .trend-table th {
+            padding: 6px 10px;
+            text-align: left;
+            color: #666;
+            border-bottom: 2px solid #e5e7eb;
+        }
+        .over-budget {
+            color: #991b1b;
+            font-weight: 600;
+        }
+        .page-errors {
+            color: #991b1b;
+            margin-bottom: 15px;
+        }
+        .page-errors ul {
+            margin-left: 20px;
+        }
+        .browser-logs summary {
+            cursor: pointer;
+            font-weight: 600;
+            padding: 6px 0;
+        }
+        .browser-logs pre {
+            background: #f8f9fa;
+            padding: 10px;
+            overflow-x: auto;
+            font-size: 0.85em;
+        }
+        .request-failed td {
+            color: #991b1b;
+        }
         .footer {
             text-align: center;
             padding: 20px;
@@ -319,6 +668,10 @@ class ReportGenerator {
                 <div class="label">Failed</div>
                 <div class="value">${data.failed}</div>
             </div>
+            <div class="summary-card flaky">
+                <div class="label">Flaky</div>
+                <div class="value">${data.flaky}</div>
+            </div>
             <div class="summary-card duration">
                 <div class="label">Duration</div>
                 <div class="value">${durationSeconds}s</div>
@@ -337,6 +690,9 @@ class ReportGenerator {
         <div class="environment">
             <h2>Test Environment</h2>
             <div class="environment-info">
+                <div class="environment-item">
+                    <strong>Run ID:</strong> <span>${this.escapeHtml(data.runId)}</span>
+                </div>
                 <div class="environment-item">
                     <strong>Browser:</strong> <span>${data.environment.browser}</span>
                 </div>
@@ -346,9 +702,31 @@ class ReportGenerator {
                 <div class="environment-item">
                     <strong>Node Version:</strong> <span>${data.environment.nodeVersion}</span>
                 </div>
+                ${data.environment.remoteUrl ? `
+                <div class="environment-item">
+                    <strong>Selenium Server:</strong> <span>${this.escapeHtml(data.environment.remoteUrl)}</span>
+                </div>` : ''}
+                ${data.environment.gridNodes ? `
+                <div class="environment-item">
+                    <strong>Grid Nodes:</strong> <span>${this.escapeHtml(data.environment.gridNodes.join(', '))}</span>
+                </div>` : ''}
             </div>
         </div>
 
+        ${data.trends ? this.buildTrendsSection(data.trends) : ''}
+
+        ${this.buildAccessibilitySection(data.testResults)}
+
+        ${this.buildPerformanceSection(data.testResults)}
+
+        ${this.buildHealedLocatorsSection(data.testResults)}
+
+        ${flakyTests.length > 0 ? `
+        <div class="tests-section">
+            <h2>Flaky Tests</h2>
+            ${this.buildTestCards(flakyTests)}
+        </div>` : ''}
+
         <div class="tests-section">
             <h2>Test Results</h2>
             ${this.buildTestCards(data.testResults)}
@@ -385,13 +763,23 @@ class ReportGenerator {
       if (test.error) {
         detailsContent += `<div class="error-message">${this.escapeHtml(test.error)}</div>`;
       }
-      if (test.screenshot && existsSync(test.screenshot)) {
-        try {
-          const imageData = readFileSync(test.screenshot, 'base64');
-          detailsContent += `<img src="data:image/png;base64,${imageData}" alt="Screenshot" class="screenshot">`;
-        } catch (error) {
-          detailsContent += `<p>Screenshot unavailable</p>`;
-        }
+      detailsContent += this.buildPageErrors(test.pageErrors);
+      detailsContent += this.buildScreenshot(test.screenshot);
+      detailsContent += this.buildSnapshotDiffs(test.attachments);
+      detailsContent += this.buildVideos(test.attachments);
+      detailsContent += this.buildAttachmentLinks(test.attachments);
+      detailsContent += this.buildBrowserLogs(test.attachments);
+      for (const attempt of test.failedAttempts || []) {
+        detailsContent += `
+                <div class="attempt">
+                    <h4>Attempt ${attempt.attempt} of ${test.attempts} failed (${attempt.duration.toFixed(0)}ms)</h4>
+                    ${attempt.error ? `<div class="error-message">${this.escapeHtml(attempt.error)}</div>` : ''}
+                    ${this.buildScreenshot(attempt.screenshot)}
+                    ${this.buildSnapshotDiffs(attempt.attachments)}
+                    ${this.buildVideos(attempt.attachments)}
+                    ${this.buildAttachmentLinks(attempt.attachments)}
+                    ${this.buildBrowserLogs(attempt.attachments)}
+                </div>`;
       }
 
       return `
@@ -403,6 +791,8 @@ class ReportGenerator {
                 </div>
                 <div style="display: flex; align-items: center;">
                     <span class="test-status ${statusClass}">${test.status}</span>
+                    ${test.attempts > 1 ? `<span class="test-duration">${test.attempts} attempts</span>` : ''}
+                    ${test.networkProfile ? `<span class="test-duration">${this.escapeHtml(test.networkProfile)} network</span>` : ''}
                     <span class="test-duration">${durationMs}ms</span>
                 </div>
             </div>
@@ -412,6 +802,371 @@ class ReportGenerator {
     }).join('');
   }
 
+  // List uncaught page exceptions and failed responses recorded during the test
+  private buildPageErrors(pageErrors: PageError[] = []): string {
+    if (pageErrors.length === 0) {
+      return '';
+    }
+    const items = pageErrors.map(error => `<li>${this.escapeHtml(PageErrorMonitor.describe(error))}</li>`);
+    return `
+                <div class="page-errors">
+                    <h4>Page errors (${pageErrors.length})</h4>
+                    <ul>${items.join('')}</ul>
+                </div>`;
+  }
+
+  // Embed a screenshot so the report stays a single file
+  private buildScreenshot(screenshot?: string): string {
+    if (!screenshot || !existsSync(screenshot)) {
+      return '';
+    }
+    try {
+      const imageData = readFileSync(screenshot, 'base64');
+      return `<img src="data:image/png;base64,${imageData}" alt="Screenshot" class="screenshot">`;
+    } catch (error) {
+      return `<p>Screenshot unavailable</p>`;
+    }
+  }
+
+  // Baseline, actual and diff images side by side for each mismatched snapshot
+  private buildSnapshotDiffs(attachments: Attachment[] = []): string {
+    const snapshots = new Map<string, Attachment[]>();
+    for (const attachment of attachments) {
+      if (attachment.snapshot) {
+        snapshots.set(attachment.snapshot, [...(snapshots.get(attachment.snapshot) || []), attachment]);
+      }
+    }
+
+    const labels: Partial<Record<Attachment['type'], string>> = {
+      'snapshot-baseline': 'Baseline',
+      'snapshot-actual': 'Actual',
+      'snapshot-diff': 'Diff'
+    };
+    return [...snapshots.entries()].map(([name, images]) => {
+      const figures = images.map(image => {
+        if (!existsSync(image.path)) return '';
+        const imageData = readFileSync(image.path, 'base64');
+        return `<figure><img src="data:image/png;base64,${imageData}" alt="${labels[image.type]}"><figcaption>${labels[image.type]}</figcaption></figure>`;
+      });
+      return `
+                <div class="snapshot-diff">
+                    <h4>Snapshot: ${this.escapeHtml(name)}</h4>
+                    <div class="triptych">${figures.join('')}</div>
+                </div>`;
+    }).join('');
+  }
+
+  // Videos are too large to inline, so they play from the evidence folder
+  private buildVideos(attachments: Attachment[] = []): string {
+    return attachments
+      .filter(attachment => attachment.type === 'video')
+      .map(attachment => `<video class="video" controls preload="metadata" src="${this.escapeHtml(this.attachmentHref(attachment))}"></video>`)
+      .join('');
+  }
+
+  private buildAttachmentLinks(attachments: Attachment[] = []): string {
+    if (attachments.length === 0) {
+      return '';
+    }
+    const links = attachments.map(attachment => (
+      `<li><a href="${this.escapeHtml(this.attachmentHref(attachment))}">${this.escapeHtml(attachment.name)}</a> (${attachment.type})</li>`
+    ));
+    return `<ul class="attachments">${links.join('')}</ul>`;
+  }
+
+  // Link evidence files relative to the report so the reports folder can be moved as a whole
+  private attachmentHref(attachment: Attachment): string {
+    return path.relative(this.reportDir, attachment.path).split(path.sep).join('/');
+  }
+
+  /**
+   * Build collapsible console and network sections from log attachments
+   * @param attachments - Evidence attachments of a test or attempt
+   * @returns HTML string
+   */
+  private buildBrowserLogs(attachments: Attachment[] = []): string {
+    const read = (type: Attachment['type']): string | undefined => {
+      const attachment = attachments.find(a => a.type === type);
+      if (!attachment || !existsSync(attachment.path)) return undefined;
+      try {
+        return readFileSync(attachment.path, 'utf8');
+      } catch {
+        return undefined;
+      }
+    };
+
+    let html = '';
+    const consoleLog = read('console-log');
+    if (consoleLog !== undefined) {
+      const lines = consoleLog.split('\n').filter(line => line.trim() !== '');
+      html += `
+                <details class="browser-logs">
+                    <summary>Console (${lines.length})</summary>
+                    <pre>${lines.length > 0 ? this.escapeHtml(lines.join('\n')) : 'No console entries'}</pre>
+                </details>`;
+    }
+
+    const networkLog = read('network-log');
+    if (networkLog !== undefined) {
+      let requests: NetworkEntry[] = [];
+      try {
+        requests = JSON.parse(networkLog) as NetworkEntry[];
+      } catch {
+        requests = [];
+      }
+      const rows = requests.map(request => {
+        const failed = request.error !== undefined || (request.status ?? 0) >= 400;
+        return `
+                        <tr${failed ? ' class="request-failed"' : ''}>
+                            <td>${this.escapeHtml(request.method)}</td>
+                            <td>${request.status ?? ''}</td>
+                            <td>${this.escapeHtml(request.url)}</td>
+                            <td>${request.duration !== undefined ? `${request.duration.toFixed(0)}ms` : ''}</td>
+                            <td>${this.escapeHtml(request.error || '')}</td>
+                        </tr>`;
+      }).join('');
+      html += `
+                <details class="browser-logs">
+                    <summary>Network (${requests.length})</summary>
+                    <table class="trend-table">${rows}
+                    </table>
+                </details>`;
+    }
+
+    return html;
+  }
+
+  /**
+   * Build HTML for the accessibility section, one table per audited page
+   * Violations of the same rule found by several audits of a page are merged
+   * @param testResults - Test results carrying accessibility audits
+   * @returns HTML string, empty when nothing was audited
+   */
+  private buildAccessibilitySection(testResults: TestResult[]): string {
+    const pages = new Map<string, AccessibilityAudit[]>();
+    for (const audit of testResults.flatMap(test => test.accessibility || [])) {
+      pages.set(audit.page, [...(pages.get(audit.page) || []), audit]);
+    }
+    if (pages.size === 0) {
+      return '';
+    }
+
+    const impactOrder = ['critical', 'serious', 'moderate', 'minor'];
+    const sections = [...pages.entries()].map(([page, audits]) => {
+      const rules = new Map<string, { violation: AccessibilityViolation; targets: Set<string> }>();
+      for (const violation of audits.flatMap(audit => audit.violations)) {
+        const rule = rules.get(violation.id) || { violation, targets: new Set<string>() };
+        violation.nodes.forEach(node => rule.targets.add(node.target.join(' ')));
+        rules.set(violation.id, rule);
+      }
+
+      const rows = [...rules.values()]
+        .sort((a, b) => impactOrder.indexOf(a.violation.impact || 'minor') - impactOrder.indexOf(b.violation.impact || 'minor'))
+        .map(({ violation, targets }) => `
+                    <tr>
+                        <td><span class="impact impact-${violation.impact || 'minor'}">${violation.impact || 'unknown'}</span></td>
+                        <td><a href="${this.escapeHtml(violation.helpUrl)}">${this.escapeHtml(violation.id)}</a><div class="test-suite">${this.escapeHtml(violation.help)}</div></td>
+                        <td><code>${[...targets].slice(0, 5).map(target => this.escapeHtml(target)).join('<br>')}</code>${targets.size > 5 ? `<div class="test-suite">and ${targets.size - 5} more</div>` : ''}</td>
+                    </tr>`).join('');
+
+      return `
+            <h3>${this.escapeHtml(page)}</h3>
+            <div class="test-suite">${audits.length} audit${audits.length === 1 ? '' : 's'}, ${rules.size} rule${rules.size === 1 ? '' : 's'} violated</div>
+            ${rules.size > 0 ? `<table class="trend-table">${rows}
+            </table>` : '<p>No violations</p>'}`;
+    }).join('');
+
+    return `
+        <div class="trends-section">
+            <h2>Accessibility</h2>
+            ${sections}
+        </div>`;
+  }
+
+  /**
+   * Build HTML for the performance section: median timings per page against
+   * their budgets, then every navigation that went over budget
+   * @param testResults - Test results carrying performance records
+   * @returns HTML string, empty when no timings were recorded
+   */
+  private buildPerformanceSection(testResults: TestResult[]): string {
+    const records = testResults.flatMap(test =>
+      (test.performance || []).map(record => ({ test, record })));
+    if (records.length === 0) {
+      return '';
+    }
+
+    const metrics: Array<[PerformanceMetric, string]> = [
+      ['ttfb', 'TTFB'], ['domContentLoaded', 'DOMContentLoaded'], ['load', 'Load'], ['lcp', 'LCP']
+    ];
+    const median = (values: number[]): number => {
+      const sorted = [...values].sort((a, b) => a - b);
+      return sorted[Math.floor((sorted.length - 1) / 2)];
+    };
+
+    // Loads under a network profile get their own row, they would skew the unthrottled medians
+    const pages = new Map<string, PerformanceRecord[]>();
+    records.forEach(({ record }) => {
+      const key = record.network ? `${record.path} ${record.network}` : record.path;
+      pages.set(key, [...(pages.get(key) || []), record]);
+    });
+
+    const pageRows = [...pages.values()].map(pageRecords => {
+      const { path: page, network, budget } = pageRecords[pageRecords.length - 1];
+      const cells = metrics.map(([metric]) => {
+        const values = pageRecords.map(record => record.timings[metric]).filter((v): v is number => v !== null);
+        if (values.length === 0) {
+          return '<td>-</td>';
+        }
+        const value = median(values);
+        const limit = budget[metric];
+        const over = limit !== undefined && value > limit;
+        return `<td${over ? ' class="over-budget"' : ''}>${value}ms${limit !== undefined ? `<div class="test-suite">budget ${limit}ms</div>` : ''}</td>`;
+      }).join('');
+      return `
+                <tr>
+                    <td><code>${this.escapeHtml(page)}</code><div class="test-suite">${pageRecords.length} load${pageRecords.length === 1 ? '' : 's'}${network ? ` on ${this.escapeHtml(network)}` : ''}</div></td>
+                    ${cells}
+                </tr>`;
+    }).join('');
+
+    const breachRows = records.filter(({ record }) => record.breaches.length > 0).map(({ test, record }) => `
+                <tr>
+                    <td>${this.escapeHtml(test.testName)}<div class="test-suite">${this.escapeHtml(test.suiteName)}</div></td>
+                    <td>${this.escapeHtml(record.action)}<div class="test-suite">${this.escapeHtml(record.path)}${record.network ? ` on ${this.escapeHtml(record.network)}` : ''}</div></td>
+                    <td class="over-budget">${record.breaches.map(breach =>
+                      `${metrics.find(([metric]) => metric === breach.metric)?.[1]} ${breach.value}ms / ${breach.budget}ms`).join('<br>')}</td>
+                </tr>`).join('');
+
+    return `
+        <div class="trends-section">
+            <h2>Performance</h2>
+            <h3>Median Timings</h3>
+            <table class="trend-table">
+                <tr><th>Page</th>${metrics.map(([, label]) => `<th>${label}</th>`).join('')}</tr>${pageRows}
+            </table>
+            <h3>Over Budget</h3>
+            ${breachRows ? `<table class="trend-table">${breachRows}
+            </table>` : '<p>None</p>'}
+        </div>`;
+  }
+
+  /**
+   * Build HTML for the healed locators section, one row per page object locator
+   * that was only found through a fallback, with the tests that hit it
+   * @param testResults - Test results carrying healed locator warnings
+   * @returns HTML string, empty when every primary locator worked
+   */
+  private buildHealedLocatorsSection(testResults: TestResult[]): string {
+    const locators = new Map<string, { healing: HealedLocator; tests: TestResult[] }>();
+    for (const test of testResults) {
+      for (const healing of test.healedLocators || []) {
+        const key = `${healing.page}.${healing.locator}`;
+        const entry = locators.get(key) || { healing, tests: [] };
+        entry.tests.push(test);
+        locators.set(key, entry);
+      }
+    }
+    if (locators.size === 0) {
+      return '';
+    }
+
+    const rows = [...locators.values()].map(({ healing, tests }) => `
+                <tr>
+                    <td>${this.escapeHtml(healing.locator)}<div class="test-suite">${this.escapeHtml(healing.page)}, ${tests.length} test${tests.length === 1 ? '' : 's'}</div></td>
+                    <td class="over-budget"><code>${this.escapeHtml(healing.primary)}</code></td>
+                    <td><code>${this.escapeHtml(healing.fallback)}</code></td>
+                    <td><code>${this.escapeHtml(healing.suggestion)}</code></td>
+                </tr>`).join('');
+
+    return `
+        <div class="trends-section">
+            <h2>Healed Locators</h2>
+            <p>These primary locators found nothing and a fallback was used. Update the page objects before the fallbacks break too.</p>
+            <table class="trend-table">
+                <tr><th>Locator</th><th>Primary</th><th>Found by</th><th>Suggested replacement</th></tr>${rows}
+            </table>
+        </div>`;
+  }
+
+  /**
+   * Build HTML for the trends section
+   * @param trends - Trends across recent runs
+   * @returns HTML string
+   */
+  private buildTrendsSection(trends: TrendData): string {
+    const passRates = trends.runs.map(run => run.passRate);
+    const listTests = (tests: TestTrend[]): string => tests.length > 0
+      ? `<ul class="trend-list">${tests.map(t =>
+        `<li>${this.escapeHtml(t.testName)} <span class="test-suite">${this.escapeHtml(t.suiteName)}</span></li>`
+      ).join('')}</ul>`
+      : '<p>None</p>';
+
+    const rows = trends.tests.map(trend => {
+      const durations = trend.durations.filter((d): d is number => d !== null);
+      const latest = trend.durations[trend.durations.length - 1];
+      return `
+                <tr>
+                    <td>${this.escapeHtml(trend.testName)}<div class="test-suite">${this.escapeHtml(trend.suiteName)}</div></td>
+                    <td>${this.buildSparkline(trend.durations, trend.statuses)}</td>
+                    <td>${latest !== null ? `${latest.toFixed(0)}ms` : '-'}</td>
+                    <td>${durations.length > 0 ? `${Math.max(...durations).toFixed(0)}ms max` : ''}</td>
+                </tr>`;
+    }).join('');
+
+    return `
+        <div class="trends-section">
+            <h2>Trends (last ${trends.runs.length} run${trends.runs.length === 1 ? '' : 's'})</h2>
+            <h3>Pass Rate</h3>
+            ${this.buildSparkline(passRates, [], 600, 60, 100)}
+            <div class="test-suite">${passRates.map(rate => `${rate.toFixed(0)}%`).join(' → ')}</div>
+            <h3>Newly Failing</h3>
+            ${listTests(trends.newlyFailing)}
+            <h3>Went Green</h3>
+            ${listTests(trends.wentGreen)}
+            <h3>Durations</h3>
+            <table class="trend-table">${rows}
+            </table>
+        </div>`;
+  }
+
+  /**
+   * Build an inline SVG sparkline; gaps are runs the test was not part of
+   * @param values - Values oldest first
+   * @param statuses - Optional status per value, failed runs are marked red
+   * @param width - Width in pixels
+   * @param height - Height in pixels
+   * @param max - Top of the scale, defaults to the largest value
+   * @returns SVG string
+   */
+  private buildSparkline(
+    values: Array<number | null>,
+    statuses: Array<TestResult['status'] | null>,
+    width: number = 160,
+    height: number = 30,
+    max?: number
+  ): string {
+    const present = values.filter((v): v is number => v !== null);
+    const top = max ?? Math.max(...present, 1);
+    const step = values.length > 1 ? (width - 6) / (values.length - 1) : 0;
+    const points = values.map((value, i) => value === null ? null : {
+      x: 3 + i * step,
+      y: height - 3 - (value / top) * (height - 6),
+      status: statuses[i]
+    });
+
+    const line = points
+      .filter((p): p is NonNullable<typeof p> => p !== null)
+      .map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`)
+      .join(' ');
+    const dots = points.map(p => p
+      ? `<circle class="${p.status || ''}" cx="${p.x.toFixed(1)}" cy="${p.y.toFixed(1)}" r="2"/>`
+      : '').join('');
+
+    return `<svg class="sparkline" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+      `<polyline points="${line}"/>${dots}</svg>`;
+  }
+
   // Escape HTML special characters
   private escapeHtml(text: string): string {
     const map: Record<string, string> = {
@@ -423,6 +1178,12 @@ class ReportGenerator {
     };
     return text.replace(/[&<>"']/g, m => map[m]);
   }
+
+  // Escape XML special characters and drop control characters XML 1.0 does not allow
+  private escapeXml(text: string): string {
+    // eslint-disable-next-line no-control-regex
+    return this.escapeHtml(text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')).replace(/&#039;/g, '&apos;');
+  }
 }
 
 export default new ReportGenerator();
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { existsSync } from 'fs';
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+import type { ReportData, RunHistoryEntry, TestResult, TestTrend, TrendData } from '../types/index.js';
+
+// Outcome of a test in one run
+type RunStatus = TestResult['status'];
+
+/**
+ * Run history store
+ * Appends a summary of every run to reports/history/runs.jsonl, keeping the
+ * most recent runs, and derives pass-rate and per-test trends over them
+ */
+class RunHistory {
+  private historyDir: string;
+  private historyFile: string;
+
+  constructor() {
+    this.historyDir = path.join(process.cwd(), 'reports', 'history');
+    this.historyFile = path.join(this.historyDir, 'runs.jsonl');
+  }
+
+  /**
+   * Append a run to the history store
+   * @param reportData - Report data of the finished run
+   * @returns The stored history entry
+   */
+  public async append(reportData: ReportData): Promise<RunHistoryEntry> {
+    const entry: RunHistoryEntry = {
+      runId: reportData.runId,
+      timestamp: reportData.timestamp,
+      browser: reportData.environment.browser,
+      totalTests: reportData.totalTests,
+      passed: reportData.passed,
+      failed: reportData.failed,
+      skipped: reportData.skipped,
+      flaky: reportData.flaky,
+      duration: reportData.duration,
+      tests: reportData.testResults.map(({ suiteName, testName, status, duration }) => (
+        { suiteName, testName, status, duration }
+      ))
+    };
+
+    try {
+      await mkdir(this.historyDir, { recursive: true });
+      await appendFile(this.historyFile, `${JSON.stringify(entry)}\n`, 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to append run history: ${(error as Error).message}`);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Drop the oldest runs from the history store beyond a maximum
+   * @param maxRuns - Number of runs to keep
+   */
+  public async prune(maxRuns: number): Promise<void> {
+    if (!existsSync(this.historyFile)) return;
+
+    try {
+      const lines = (await readFile(this.historyFile, 'utf8')).split('\n').filter(line => line.trim() !== '');
+      if (lines.length <= maxRuns) return;
+      await writeFile(this.historyFile, `${lines.slice(-maxRuns).join('\n')}\n`, 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to prune run history: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Read the most recent runs, oldest first
+   * Lines that cannot be parsed are skipped
+   * @param limit - Maximum number of runs to return
+   */
+  public async readRuns(limit: number): Promise<RunHistoryEntry[]> {
+    if (limit <= 0 || !existsSync(this.historyFile)) {
+      return [];
+    }
+
+    const lines = (await readFile(this.historyFile, 'utf8')).split('\n').filter(line => line.trim() !== '');
+    const runs: RunHistoryEntry[] = [];
+
+    for (const line of lines.slice(-limit)) {
+      try {
+        runs.push(JSON.parse(line) as RunHistoryEntry);
+      } catch {
+        console.warn('Skipping unreadable run history entry');
+      }
+    }
+
+    return runs;
+  }
+
+  /**
+   * Append a run and build trends over the last runs including it
+   * @param reportData - Report data of the finished run
+   * @param historySize - Number of runs in the trend window, 0 disables history
+   * @param maxRuns - Number of runs to keep in the store, at least the trend window
+   * @returns Trend data, undefined when history is disabled
+   */
+  public async record(reportData: ReportData, historySize: number, maxRuns: number): Promise<TrendData | undefined> {
+    if (historySize <= 0) {
+      return undefined;
+    }
+
+    await this.append(reportData);
+    await this.prune(Math.max(maxRuns, historySize));
+    return this.buildTrends(await this.readRuns(historySize));
+  }
+
+  /**
+   * Build trends from runs ordered oldest first; the last run is the current one
+   * @param runs - Runs in the trend window
+   */
+  public buildTrends(runs: RunHistoryEntry[]): TrendData {
+    const keys = new Map<string, Pick<TestResult, 'suiteName' | 'testName'>>();
+    for (const run of runs) {
+      for (const test of run.tests) {
+        keys.set(this.testKey(test), { suiteName: test.suiteName, testName: test.testName });
+      }
+    }
+
+    const lookups = runs.map(run => new Map(run.tests.map(test => [this.testKey(test), test])));
+    const tests: TestTrend[] = [...keys.entries()].map(([key, test]) => ({
+      ...test,
+      durations: lookups.map(lookup => lookup.get(key)?.duration ?? null),
+      statuses: lookups.map(lookup => lookup.get(key)?.status ?? null)
+    }));
+
+    // Compare each test's current status with the last run it took part in; flaky passed only on a retry
+    const changedTo = (from: RunStatus[], to: RunStatus[]): TestTrend[] => tests.filter(trend => {
+      const current = trend.statuses[trend.statuses.length - 1];
+      const previous = trend.statuses.slice(0, -1).reverse().find(status => status !== null && status !== 'skipped');
+      return current !== null && previous !== undefined && to.includes(current) && from.includes(previous);
+    });
+
+    return {
+      runs: runs.map(run => ({
+        timestamp: run.timestamp,
+        // Flaky tests passed in the end; runs recorded before retries have no flaky count
+        passRate: run.totalTests > 0 ? ((run.passed + (run.flaky || 0)) / run.totalTests) * 100 : 0
+      })),
+      tests,
+      newlyFailing: changedTo(['passed', 'flaky'], ['failed']),
+      wentGreen: changedTo(['failed'], ['passed', 'flaky'])
+    };
+  }
+
+  private testKey(test: Pick<TestResult, 'suiteName' | 'testName'>): string {
+    return `${test.suiteName} › ${test.testName}`;
+  }
+}
+
+export default new RunHistory();
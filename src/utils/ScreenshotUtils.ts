@@ -1,10 +1,15 @@
-import { WebDriver } from 'selenium-webdriver';
-import { writeFile, mkdir } from 'fs/promises';
+import { WebDriver, WebElement } from 'selenium-webdriver';
+import { writeFile, mkdir, readFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import path from 'path';
 
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+
 import config from '../config/test.config.js';
-import type { ScreenshotOptions } from '../types/index.js';
+import type { Attachment, Region, ScreenshotOptions, SnapshotResult } from '../types/index.js';
+
+import BrowserLogCollector from './BrowserLogCollector.js';
 
 /**
  * Screenshot utility for capturing test evidence
@@ -12,6 +17,7 @@ import type { ScreenshotOptions } from '../types/index.js';
  */
 class ScreenshotUtils {
   private screenshotDir: string;
+  private snapshotAttachments: Attachment[] = [];
 
   constructor() {
     this.screenshotDir = config.getScreenshotPath();
@@ -72,39 +78,45 @@ class ScreenshotUtils {
 
   /**
    * Capture comprehensive failure evidence
-   * Includes screenshot, page source, and browser console logs
+   * Includes screenshot, page source, browser info, console and network logs, saved in
+   * a folder per run so evidence is never matched up by filename
    * @param driver - WebDriver instance
    * @param testName - Name of the failed test
-   * @returns Object containing paths to captured evidence
+   * @returns Attachments for the test result
    */
   public async captureFailureEvidence(
     driver: WebDriver,
     testName: string
-  ): Promise<{ screenshot: string; pageSource: string }> {
+  ): Promise<Attachment[]> {
     try {
-      await this.ensureDirectoryExists();
-      
+      const runId = config.getRunId();
+      const evidenceDir = path.join(this.screenshotDir, runId);
+      await mkdir(evidenceDir, { recursive: true });
+
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
       const sanitizedName = testName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+      const attachments: Attachment[] = [];
 
-      const screenshot = await driver.takeScreenshot();
-      const screenshotPath = path.join(
-        this.screenshotDir,
-        `${sanitizedName}_failure_${timestamp}.png`
-      );
-      await writeFile(screenshotPath, screenshot, 'base64');
+      const save = async (
+        suffix: string,
+        type: Attachment['type'],
+        contentType: string,
+        content: string,
+        encoding: BufferEncoding = 'utf8'
+      ): Promise<void> => {
+        const filePath = path.join(evidenceDir, `${sanitizedName}_${suffix}_${timestamp}.${this.extensionFor(contentType)}`);
+        await writeFile(filePath, content, encoding);
+        attachments.push({ name: path.basename(filePath), type, path: filePath, contentType, runId });
+      };
 
-      const pageSource = await driver.getPageSource();
-      const pageSourcePath = path.join(
-        this.screenshotDir,
-        `${sanitizedName}_source_${timestamp}.html`
-      );
-      await writeFile(pageSourcePath, pageSource, 'utf8');
+      await save('failure', 'screenshot', 'image/png', await driver.takeScreenshot(), 'base64');
+      await save('source', 'page-source', 'text/html', await driver.getPageSource());
 
       const currentUrl = await driver.getCurrentUrl();
       const browserInfo = await driver.getCapabilities();
       
       const evidenceInfo = {
+        runId,
         testName,
         timestamp: new Date().toISOString(),
         url: currentUrl,
@@ -112,22 +124,32 @@ class ScreenshotUtils {
         browserVersion: browserInfo.getBrowserVersion(),
         platform: browserInfo.getPlatform()
       };
+      await save('info', 'info', 'application/json', JSON.stringify(evidenceInfo, null, 2));
 
-      const infoPath = path.join(
-        this.screenshotDir,
-        `${sanitizedName}_info_${timestamp}.json`
-      );
-      await writeFile(infoPath, JSON.stringify(evidenceInfo, null, 2), 'utf8');
+      if (config.getConfig().screenshots.browserLogs) {
+        const logs = await BrowserLogCollector.collect(driver);
+        const consoleLog = logs.console
+          .map(entry => `${new Date(entry.timestamp).toISOString()} [${entry.level}] ${entry.message}`)
+          .join('\n');
+        await save('console', 'console-log', 'text/plain', consoleLog);
+        await save('network', 'network-log', 'application/json', JSON.stringify(logs.network, null, 2));
+      }
 
-      return {
-        screenshot: screenshotPath,
-        pageSource: pageSourcePath
-      };
+      return attachments;
     } catch (error) {
       throw new Error(`Failed to capture failure evidence: ${(error as Error).message}`);
     }
   }
 
+  private extensionFor(contentType: string): string {
+    const extensions: Record<string, string> = {
+      'image/png': 'png',
+      'text/html': 'html',
+      'application/json': 'json'
+    };
+    return extensions[contentType] || 'log';
+  }
+
   /**
    * Capture screenshot for a specific test step
    * @param driver - WebDriver instance
@@ -147,6 +169,173 @@ class ScreenshotUtils {
     });
   }
 
+  /**
+   * Check whether a snapshot has a baseline for the session's browser and viewport width
+   * @param driver - WebDriver instance
+   * @param name - Snapshot name
+   */
+  public async hasBaseline(driver: WebDriver, name: string): Promise<boolean> {
+    const browserName = (await driver.getCapabilities()).getBrowserName();
+    const viewportWidth = await driver.executeScript<number>('return window.innerWidth;');
+    return existsSync(this.getBaselinePath(browserName, viewportWidth, name));
+  }
+
+  /**
+   * Compare a screenshot of the page or an element with its baseline
+   * Baselines are kept per browser and viewport width under visual.baselineDir. A missing
+   * baseline fails the comparison, update mode creates or overwrites it; on a mismatch
+   * the baseline, actual and diff images are kept for the report
+   * @param driver - WebDriver instance
+   * @param name - Snapshot name
+   * @param options - Element to capture, regions to leave out and thresholds
+   * @returns Comparison result
+   */
+  public async compareSnapshot(
+    driver: WebDriver,
+    name: string,
+    options: {
+      element?: WebElement;
+      ignore?: Array<Region | WebElement>;
+      threshold?: number;
+      maxDiffRatio?: number;
+    } = {}
+  ): Promise<SnapshotResult> {
+    const visualConfig = config.getVisualConfig();
+    const threshold = options.threshold ?? visualConfig.threshold;
+    const maxDiffRatio = options.maxDiffRatio ?? visualConfig.maxDiffRatio;
+
+    try {
+      const screenshot = Buffer.from(
+        options.element ? await options.element.takeScreenshot() : await driver.takeScreenshot(),
+        'base64'
+      );
+      const actual = PNG.sync.read(screenshot);
+      const ignore = options.ignore || [];
+      const geometry = await driver.executeScript<{ origin: number[]; viewportWidth: number; elements: number[][] }>(`
+        const rect = el => { const r = el.getBoundingClientRect(); return [r.left, r.top, r.width, r.height]; };
+        return {
+          origin: arguments[0] ? rect(arguments[0]) : [0, 0, window.innerWidth, window.innerHeight],
+          viewportWidth: window.innerWidth,
+          elements: arguments[1].map(rect)
+        };`,
+        options.element || null,
+        ignore.filter((item): item is WebElement => item instanceof WebElement)
+      );
+
+      const browserName = (await driver.getCapabilities()).getBrowserName();
+      const baselinePath = this.getBaselinePath(browserName, geometry.viewportWidth, name);
+
+      // A baseline written by the run itself would always match, so only update mode creates one
+      if (!visualConfig.updateBaselines && !existsSync(baselinePath)) {
+        const message = `No baseline for snapshot '${name}': ${baselinePath}. ` +
+          'Run with UPDATE_BASELINES=true to create it and commit the file';
+        return { name, status: 'missing', diffPixels: 0, diffRatio: 0, baselinePath, message };
+      }
+
+      if (visualConfig.updateBaselines) {
+        const status = existsSync(baselinePath) ? 'updated' : 'created';
+        await mkdir(path.dirname(baselinePath), { recursive: true });
+        await writeFile(baselinePath, screenshot);
+        const message = `Baseline ${status} for snapshot '${name}': ${baselinePath}`;
+        console.log(message);
+        return { name, status, diffPixels: 0, diffRatio: 0, baselinePath, message };
+      }
+
+      const baseline = PNG.sync.read(await readFile(baselinePath));
+      if (baseline.width !== actual.width || baseline.height !== actual.height) {
+        await this.saveSnapshotEvidence(name, baseline, actual);
+        const message = `Snapshot '${name}' is ${actual.width}x${actual.height}, ` +
+          `baseline ${baseline.width}x${baseline.height} (${baselinePath})`;
+        return { name, status: 'mismatched', diffPixels: actual.width * actual.height, diffRatio: 1, baselinePath, message };
+      }
+
+      // Ignored regions take the baseline's pixels, so they never differ
+      const scale = actual.width / geometry.origin[2];
+      const regions = [
+        ...ignore.filter((item): item is Region => !(item instanceof WebElement)),
+        ...geometry.elements.map(([x, y, width, height]) => (
+          { x: x - geometry.origin[0], y: y - geometry.origin[1], width, height }
+        ))
+      ];
+      regions.forEach(region => this.copyRegion(baseline, actual, region, scale));
+
+      const diff = new PNG({ width: actual.width, height: actual.height });
+      const diffPixels = pixelmatch(baseline.data, actual.data, diff.data, actual.width, actual.height, { threshold });
+      const diffRatio = diffPixels / (actual.width * actual.height);
+
+      if (diffPixels > 0 && diffRatio > maxDiffRatio) {
+        // Keep the screenshot as taken, without the baseline pixels in ignored regions
+        await this.saveSnapshotEvidence(name, baseline, PNG.sync.read(screenshot), diff);
+        const message = `Snapshot '${name}' differs from its baseline in ${diffPixels} pixels ` +
+          `(${(diffRatio * 100).toFixed(2)}%, allowed ${(maxDiffRatio * 100).toFixed(2)}%): ${baselinePath}`;
+        return { name, status: 'mismatched', diffPixels, diffRatio, baselinePath, message };
+      }
+
+      return { name, status: 'matched', diffPixels, diffRatio, baselinePath, message: `Snapshot '${name}' matches its baseline` };
+    } catch (error) {
+      throw new Error(`Failed to compare snapshot '${name}': ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Take the baseline, actual and diff images of mismatched snapshots saved since the last call
+   * @returns Snapshot attachments, grouped by their snapshot name
+   */
+  public takeSnapshotAttachments(): Attachment[] {
+    return this.snapshotAttachments.splice(0);
+  }
+
+  // Baselines are kept per browser and viewport width under visual.baselineDir
+  private getBaselinePath(browserName: string | undefined, viewportWidth: number, name: string): string {
+    return path.join(
+      config.getVisualConfig().baselineDir,
+      `${browserName}-${viewportWidth}`,
+      `${name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.png`
+    );
+  }
+
+  // Copy a region given in CSS pixels from one image to another of the same size
+  private copyRegion(source: PNG, target: PNG, region: Region, scale: number): void {
+    const left = Math.max(0, Math.floor(region.x * scale));
+    const top = Math.max(0, Math.floor(region.y * scale));
+    const right = Math.min(target.width, Math.ceil((region.x + region.width) * scale));
+    const bottom = Math.min(target.height, Math.ceil((region.y + region.height) * scale));
+
+    for (let y = top; y < bottom; y++) {
+      const start = (y * target.width + left) * 4;
+      source.data.copy(target.data, start, start, (y * target.width + right) * 4);
+    }
+  }
+
+  // Keep the images of a mismatched snapshot in the run's evidence folder
+  private async saveSnapshotEvidence(name: string, baseline: PNG, actual: PNG, diff?: PNG): Promise<void> {
+    const runId = config.getRunId();
+    const evidenceDir = path.join(this.screenshotDir, runId);
+    await mkdir(evidenceDir, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const sanitizedName = name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    const images: Array<[Attachment['type'], PNG | undefined]> = [
+      ['snapshot-baseline', baseline],
+      ['snapshot-actual', actual],
+      ['snapshot-diff', diff]
+    ];
+
+    for (const [type, image] of images) {
+      if (!image) continue;
+      const filePath = path.join(evidenceDir, `${sanitizedName}_${type}_${timestamp}.png`);
+      await writeFile(filePath, PNG.sync.write(image));
+      this.snapshotAttachments.push({
+        name: path.basename(filePath),
+        type,
+        path: filePath,
+        contentType: 'image/png',
+        runId,
+        snapshot: name
+      });
+    }
+  }
+
   /**
    * Get screenshot directory path
    * @returns Path to screenshot directory
@@ -5,6 +5,7 @@ import path from 'path';
 import type { 
   UserCredentials, 
   CheckoutInfo, 
+  InvalidCheckoutInfo,
   TestData, 
   ShoppingScenario 
 } from '../types/index.js';
@@ -92,7 +93,7 @@ class TestDataReader {
   }
 
   // Get invalid checkout data for negative testing
-  public async getInvalidCheckoutData(): Promise<CheckoutInfo[]> {
+  public async getInvalidCheckoutData(): Promise<InvalidCheckoutInfo[]> {
     const testData = await this.getCheckoutTestData();
     return testData.invalidCheckoutData;
   }
@@ -109,14 +110,19 @@ class TestDataReader {
     return allUsers.find(user => user.username === username);
   }
 
-  // Get standard user credentials (most commonly used)
-  public async getStandardUser(): Promise<UserCredentials> {
-    const user = await this.getUserByUsername('standard_user');
+  // Get a user by username, failing when the test data has no such user
+  public async getRequiredUser(username: string): Promise<UserCredentials> {
+    const user = await this.getUserByUsername(username);
     if (!user) {
-      throw new Error('Standard user not found in test data');
+      throw new Error(`User ${username} not found in test data`);
     }
     return user;
   }
+
+  // Get standard user credentials (most commonly used)
+  public async getStandardUser(): Promise<UserCredentials> {
+    return await this.getRequiredUser('standard_user');
+  }
 }
 
 export default new TestDataReader();
\ No newline at end of file
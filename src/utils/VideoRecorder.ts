@@ -0,0 +1,209 @@
+import { ChildProcess, spawn } from 'child_process';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+import { WebDriver } from 'selenium-webdriver';
+
+import config from '../config/test.config.js';
+import type { Attachment } from '../types/index.js';
+
+// Frame rate ffmpeg grabs the X display at
+const DISPLAY_FRAME_RATE = 10;
+
+// How long ffmpeg gets to finish the file after being asked to quit
+const FFMPEG_STOP_TIMEOUT = 10000;
+
+// A recording in progress for one session
+interface Recording {
+  file: string;
+  active: boolean;
+  framesDir?: string;
+  frameCount: number;
+  timer?: NodeJS.Timeout;
+  pending?: Promise<void>;
+  ffmpeg?: ChildProcess;
+}
+
+/**
+ * Video recorder
+ * Records a test either by taking a screenshot every frameInterval ms and stitching
+ * the frames into a WebM with ffmpeg, or by running ffmpeg on the local X display.
+ * Recording problems are logged and never fail the test.
+ */
+class VideoRecorder {
+  private recordings: WeakMap<WebDriver, Recording> = new WeakMap();
+
+  /**
+   * Start recording a session, does nothing when video.mode is off
+   * @param driver - WebDriver session
+   * @param testName - Name of the test, used in the file name
+   */
+  public async start(driver: WebDriver, testName: string): Promise<void> {
+    const videoConfig = config.getVideoConfig();
+    if (videoConfig.mode === 'off' || this.recordings.has(driver)) return;
+
+    const evidenceDir = path.join(config.getScreenshotPath(), config.getRunId());
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const baseName = `${testName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_video_${timestamp}`;
+    const recording: Recording = {
+      file: path.join(evidenceDir, `${baseName}.webm`),
+      active: true,
+      frameCount: 0
+    };
+
+    try {
+      await mkdir(evidenceDir, { recursive: true });
+      if (videoConfig.mode === 'screenshots') {
+        recording.framesDir = path.join(evidenceDir, `${baseName}_frames`);
+        await mkdir(recording.framesDir, { recursive: true });
+        recording.pending = this.captureFrame(driver, recording, videoConfig.frameInterval);
+      } else {
+        recording.ffmpeg = this.startDisplayCapture(recording.file, videoConfig.ffmpegPath);
+      }
+      this.recordings.set(driver, recording);
+    } catch (error) {
+      console.warn('Could not start video recording:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Stop recording a session and keep or discard the video
+   * @param driver - WebDriver session
+   * @param keep - Write the video, e.g. because the test failed
+   * @returns Video attachment, undefined when nothing was kept
+   */
+  public async stop(driver: WebDriver, keep: boolean): Promise<Attachment | undefined> {
+    const recording = this.recordings.get(driver);
+    if (!recording) return undefined;
+
+    this.recordings.delete(driver);
+    recording.active = false;
+    clearTimeout(recording.timer);
+
+    try {
+      if (recording.ffmpeg) {
+        await this.stopDisplayCapture(recording.ffmpeg);
+        if (!keep) {
+          await rm(recording.file, { force: true });
+        }
+      } else if (recording.framesDir) {
+        await recording.pending;
+        if (keep && recording.frameCount > 0) {
+          await this.encodeFrames(recording.framesDir, recording.file);
+        }
+      }
+    } catch (error) {
+      console.warn('Could not save video recording:', (error as Error).message);
+      keep = false;
+      await rm(recording.file, { force: true });
+    } finally {
+      if (recording.framesDir) {
+        await rm(recording.framesDir, { recursive: true, force: true });
+      }
+    }
+
+    if (!keep || (recording.framesDir && recording.frameCount === 0)) {
+      return undefined;
+    }
+    return {
+      name: path.basename(recording.file),
+      type: 'video',
+      path: recording.file,
+      contentType: 'video/webm',
+      runId: config.getRunId()
+    };
+  }
+
+  // Take one frame, then schedule the next while the recording is active
+  private async captureFrame(driver: WebDriver, recording: Recording, interval: number): Promise<void> {
+    try {
+      const frame = await driver.takeScreenshot();
+      const index = String(recording.frameCount + 1).padStart(5, '0');
+      await writeFile(path.join(recording.framesDir as string, `frame_${index}.png`), frame, 'base64');
+      recording.frameCount++;
+    } catch {
+      // The page may be navigating or the session closing, skip the frame
+    }
+
+    if (recording.active) {
+      recording.timer = setTimeout(() => {
+        recording.pending = this.captureFrame(driver, recording, interval);
+      }, interval).unref();
+    }
+  }
+
+  // Stitch numbered PNG frames into a WebM at the rate they were taken
+  private async encodeFrames(framesDir: string, file: string): Promise<void> {
+    const { frameInterval, ffmpegPath } = config.getVideoConfig();
+    await this.runFfmpeg(ffmpegPath, [
+      '-framerate', String(1000 / frameInterval),
+      '-i', path.join(framesDir, 'frame_%05d.png'),
+      // VP9 needs even dimensions
+      '-vf', 'pad=ceil(iw/2)*2:ceil(ih/2)*2',
+      '-c:v', 'libvpx-vp9',
+      '-pix_fmt', 'yuv420p',
+      file
+    ]);
+  }
+
+  /**
+   * Grab the X display the browser runs on, e.g. Xvfb in CI
+   * Only works for local browsers with DISPLAY set
+   */
+  private startDisplayCapture(file: string, ffmpegPath: string): ChildProcess {
+    const display = process.env.DISPLAY;
+    if (!display) {
+      throw new Error('DISPLAY is not set, ffmpeg video mode needs a local X display such as Xvfb');
+    }
+    if (config.getBrowserConfig().remote) {
+      throw new Error('ffmpeg video mode records the local display and cannot record remote sessions');
+    }
+
+    const ffmpeg = spawn(ffmpegPath, [
+      '-y', '-loglevel', 'error',
+      '-f', 'x11grab',
+      '-framerate', String(DISPLAY_FRAME_RATE),
+      '-i', display,
+      '-c:v', 'libvpx-vp9',
+      '-deadline', 'realtime',
+      '-pix_fmt', 'yuv420p',
+      file
+    ], { stdio: ['pipe', 'ignore', 'pipe'] });
+    ffmpeg.on('error', error => console.warn('ffmpeg video recording failed:', error.message));
+    return ffmpeg;
+  }
+
+  // Ask ffmpeg to finish the file, killing it if it does not exit in time
+  private async stopDisplayCapture(ffmpeg: ChildProcess): Promise<void> {
+    if (ffmpeg.exitCode !== null || ffmpeg.pid === undefined) {
+      throw new Error('ffmpeg exited before the recording was stopped');
+    }
+
+    const exited = new Promise<void>(resolve => ffmpeg.once('exit', () => resolve()));
+    ffmpeg.stdin?.end('q');
+
+    const timer = setTimeout(() => ffmpeg.kill('SIGKILL'), FFMPEG_STOP_TIMEOUT);
+    await exited;
+    clearTimeout(timer);
+  }
+
+  private runFfmpeg(ffmpegPath: string, args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn(ffmpegPath, ['-y', '-loglevel', 'error', ...args], { stdio: ['ignore', 'ignore', 'pipe'] });
+      let stderr = '';
+      ffmpeg.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+      ffmpeg.on('error', error => reject(new Error(`Failed to run ${ffmpegPath}: ${error.message}`)));
+      ffmpeg.on('exit', code => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+    });
+  }
+}
+
+export default new VideoRecorder();
@@ -1,19 +1,56 @@
-import { Builder, WebDriver } from 'selenium-webdriver';
-import chrome from 'selenium-webdriver/chrome.js';
-import firefox from 'selenium-webdriver/firefox.js';
+import { Builder, Capabilities, WebDriver } from 'selenium-webdriver';
 
+import { builtInBrowserProfiles, createCustomBrowserProfile } from '../config/browser.profiles.js';
+import { getDeviceProfile } from '../config/device.profiles.js';
 import config from '../config/test.config.js';
+import type { Attachment, BrowserProfile, PageError, RemoteConfig } from '../types/index.js';
+
+import BrowserLogCollector from './BrowserLogCollector.js';
+import NetworkEmulator from './NetworkEmulator.js';
+import PageErrorMonitor from './PageErrorMonitor.js';
 import ScreenshotUtils from './ScreenshotUtils.js'
+import VideoRecorder from './VideoRecorder.js';
+
+// Time to wait for each Grid API call when resolving a session's node, in ms
+const GRID_API_TIMEOUT = 5000;
+
+// A browser session in the pool, owned by a worker or suite while in use
+interface PooledSession {
+  driver: WebDriver;
+  browser: string;
+  headless: boolean;
+  device?: string;
+  owner: string | null;
+  node?: string;
+}
 
 /**
- * WebDriver Manager - Singleton pattern for managing WebDriver instances
- * Handles driver creation, configuration, and lifecycle management
+ * WebDriver Manager - Singleton pool of WebDriver sessions
+ * Hands out one session per owner (Mocha worker or suite), reuses idle sessions
+ * between suites and guarantees every session is quit at the end of the run
  */
 class WebDriverManager {
   private static instance: WebDriverManager;
-  private driver: WebDriver | null = null;
+  private sessions: PooledSession[] = [];
+  private pendingSessions: number = 0;
+  private waiters: Array<() => void> = [];
+  private currentOwner: string | null = null;
+  private gridNodes: Set<string> = new Set();
+  private browserProfiles: Map<string, BrowserProfile> = new Map();
+  private quitting: Promise<void> | null = null;
 
-  private constructor() {}
+  private constructor() {
+    builtInBrowserProfiles.forEach(profile => this.registerBrowserProfile(profile));
+    for (const [name, custom] of Object.entries(config.getConfig().browserProfiles)) {
+      this.registerBrowserProfile(createCustomBrowserProfile(name, this.getBrowserProfile(custom.extends), custom));
+    }
+
+    const cleanup = (signal: NodeJS.Signals): void => {
+      void this.quitAll().finally(() => process.kill(process.pid, signal));
+    };
+    process.once('SIGINT', cleanup);
+    process.once('SIGTERM', cleanup);
+  }
 
   /**
    * Get singleton instance of WebDriverManager
@@ -26,113 +63,529 @@ class WebDriverManager {
   }
 
   /**
-   * Create and configure WebDriver instance
-   * @param browserName - Browser to use (chrome or firefox)
+   * Register a browser profile, replacing any profile with the same name
+   * @param profile - Browser profile to make available to createDriver()
+   */
+  public registerBrowserProfile(profile: BrowserProfile): void {
+    this.browserProfiles.set(profile.name, profile);
+  }
+
+  /**
+   * Get names of all registered browser profiles
+   * @returns Profile names, e.g. chrome, firefox, edge, safari
+   */
+  public getBrowserProfileNames(): string[] {
+    return [...this.browserProfiles.keys()];
+  }
+
+  /**
+   * Look up a registered browser profile
+   * @throws Error listing the supported profiles if the name is unknown
+   */
+  private getBrowserProfile(name: string): BrowserProfile {
+    const profile = this.browserProfiles.get(name);
+    if (!profile) {
+      throw new Error(
+        `Unknown browser profile '${name}'. Supported profiles: ${this.getBrowserProfileNames().join(', ')}`
+      );
+    }
+    return profile;
+  }
+
+  /**
+   * Default pool owner for this process
+   * Each Mocha parallel worker gets its own key; serial runs share one
+   */
+  public getDefaultOwner(): string {
+    const workerId = process.env.MOCHA_WORKER_ID;
+    return workerId !== undefined ? `worker-${workerId}` : 'main';
+  }
+
+  /**
+   * Acquire a WebDriver session from the pool
+   * Reuses the owner's session or an idle one, otherwise creates a new one
+   * @param browserName - Browser profile to use, e.g. chrome, firefox, edge
    * @param headless - Run in headless mode
+   * @param owner - Pool owner key, defaults to the current Mocha worker
    * @returns Configured WebDriver instance
    */
   public async createDriver(
-    browserName?: 'chrome' | 'firefox',
-    headless?: boolean
+    browserName?: string,
+    headless?: boolean,
+    owner: string = this.getDefaultOwner()
+  ): Promise<WebDriver> {
+    return await this.acquireDriver(browserName, headless, config.getBrowserConfig().device, owner);
+  }
+
+  /**
+   * Acquire a WebDriver session emulating a device, for a suite or a single test
+   * The owner's current session is swapped out if it runs a different device
+   * @param device - Device profile, e.g. iphone, pixel, ipad, small-laptop
+   * @param owner - Pool owner key, defaults to the current Mocha worker
+   * @returns Configured WebDriver instance
+   */
+  public async createDeviceDriver(device: string, owner: string = this.getDefaultOwner()): Promise<WebDriver> {
+    return await this.acquireDriver(undefined, undefined, device, owner);
+  }
+
+  private async acquireDriver(
+    browserName: string | undefined,
+    headless: boolean | undefined,
+    device: string | undefined,
+    owner: string
   ): Promise<WebDriver> {
     const browserConfig = config.getBrowserConfig();
     const browser = browserName || browserConfig.name;
     const isHeadless = headless !== undefined ? headless : browserConfig.headless;
+    this.getBrowserProfile(browser);
+    if (device) {
+      getDeviceProfile(device);
+    }
 
-    const builder = new Builder();
+    const owned = this.sessions.find(session => session.owner === owner);
+    if (owned) {
+      if (this.sessionMatches(owned, browser, isHeadless, device)) {
+        this.currentOwner = owner;
+        return owned.driver;
+      }
+      await this.quitDriver(owner);
+    }
+
+    const session = await this.acquireSession(browser, isHeadless, device);
+    session.owner = owner;
+    this.currentOwner = owner;
+    return session.driver;
+  }
+
+  private sessionMatches(session: PooledSession, browser: string, headless: boolean, device?: string): boolean {
+    return session.browser === browser && session.headless === headless && session.device === device;
+  }
+
+  /**
+   * Get the device the owner's session emulates
+   * @param owner - Pool owner key, defaults to the most recent owner
+   * @returns Device profile name, undefined for the configured desktop window
+   */
+  public getDevice(owner?: string): string | undefined {
+    return this.currentSession(owner)?.device;
+  }
+
+  /**
+   * Get current WebDriver instance
+   * @param owner - Pool owner key, defaults to the most recent owner
+   * @returns Current WebDriver instance
+   * @throws Error if driver not initialized
+   */
+  public getDriver(owner?: string): WebDriver {
+    const session = this.currentSession(owner);
+    if (!session) {
+      throw new Error('WebDriver not initialized. Call createDriver() first.');
+    }
+    return session.driver;
+  }
+
+  // Session held by the owner, the most recent owner by default
+  private currentSession(owner?: string | null): PooledSession | undefined {
+    const key = owner || this.currentOwner;
+    return this.sessions.find(s => s.owner !== null && s.owner === key);
+  }
+
+  /**
+   * Release the owner's WebDriver back to the pool
+   * The session is kept for the next suite when reuse is enabled, otherwise it is quit
+   * @param owner - Pool owner key, defaults to the most recent owner
+   */
+  public async quitDriver(owner?: string): Promise<void> {
+    const key = owner || this.currentOwner;
+    const session = this.currentSession(key);
+    if (!session) return;
+
+    session.owner = null;
+    if (this.currentOwner === key) {
+      this.currentOwner = null;
+    }
+    await VideoRecorder.stop(session.driver, false);
+
+    const reused = config.getDriverPoolConfig().reuseSessions && await this.resetSession(session.driver);
+    if (!reused) {
+      await this.closeSession(session);
+    }
+    this.notifyWaiter();
+  }
+
+  /**
+   * Quit every pooled session
+   * Called from the root afterAll hook, which parallel workers run after each spec file,
+   * and on SIGINT/SIGTERM; calls made while quitting wait for the same quit
+   */
+  public async quitAll(): Promise<void> {
+    if (!this.quitting) {
+      const sessions = [...this.sessions];
+      this.currentOwner = null;
+      this.quitting = Promise.all(sessions.map(session => this.closeSession(session)))
+        .then(() => undefined)
+        .finally(() => {
+          this.quitting = null;
+        });
+    }
+    await this.quitting;
+  }
+
+  // Number of live sessions, busy or idle
+  public getSessionCount(): number {
+    return this.sessions.length;
+  }
+
+  /**
+   * Get the Grid nodes sessions ran on during this run
+   * @returns Node URIs, empty when running locally
+   */
+  public getGridNodes(): string[] {
+    return [...this.gridNodes];
+  }
+
+  /**
+   * Take an idle session or create one within the concurrency limit
+   * Waits for a release when the pool is full
+   */
+  private async acquireSession(browser: string, headless: boolean, device?: string): Promise<PooledSession> {
+    const poolConfig = config.getDriverPoolConfig();
+    const deadline = Date.now() + poolConfig.acquireTimeout;
 
-    if (browser === 'chrome') {
-      const chromeOptions = new chrome.Options();
-      
-      if (isHeadless) {
-        chromeOptions.addArguments('--headless=new');
+    for (;;) {
+      const idle = this.sessions.filter(session => session.owner === null);
+      const match = idle.find(session => this.sessionMatches(session, browser, headless, device));
+      if (match) {
+        return match;
       }
-      
-      chromeOptions.addArguments(
-        '--no-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-gpu',
-        '--disable-extensions',
-        `--window-size=${browserConfig.windowSize.width},${browserConfig.windowSize.height}`,
-        '--disable-blink-features=AutomationControlled'
-      );
 
-      chromeOptions.setUserPreferences({
-        'profile.default_content_setting_values.notifications': 2,
-        'profile.password_manager_leak_detection': false,
-        'credentials_enable_service': false,
-        'profile.password_manager_enabled': false,
-      });
+      if (this.sessions.length + this.pendingSessions >= poolConfig.maxConcurrency && idle.length > 0) {
+        await this.closeSession(idle[0]);
+      }
 
-      builder.forBrowser('chrome').setChromeOptions(chromeOptions);
-    } else if (browser === 'firefox') {
-      const firefoxOptions = new firefox.Options();
-      
-      if (isHeadless) {
-        firefoxOptions.addArguments('-headless');
+      if (this.sessions.length + this.pendingSessions < poolConfig.maxConcurrency) {
+        return await this.startSession(browser, headless, device);
       }
-      
-      firefoxOptions.addArguments(
-        `--width=${browserConfig.windowSize.width}`,
-        `--height=${browserConfig.windowSize.height}`
-      );
 
-      firefoxOptions.setPreference('dom.webnotifications.enabled', false);
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(
+          `Timed out after ${poolConfig.acquireTimeout}ms waiting for a WebDriver session ` +
+          `(max concurrency ${poolConfig.maxConcurrency})`
+        );
+      }
+      await this.waitForRelease(remaining);
+    }
+  }
+
+  // Build a new session and add it to the pool
+  private async startSession(browser: string, headless: boolean, device?: string): Promise<PooledSession> {
+    this.pendingSessions++;
+    try {
+      const driver = await this.buildDriver(browser, headless, device);
+      const session: PooledSession = { driver, browser, headless, device, owner: null };
+
+      const remote = config.getBrowserConfig().remote;
+      if (remote) {
+        session.node = await this.resolveSessionNode(driver, remote.url);
+        this.gridNodes.add(session.node);
+      }
+
+      this.sessions.push(session);
+      return session;
+    } finally {
+      this.pendingSessions--;
+    }
+  }
+
+  /**
+   * Create and configure a WebDriver instance
+   * @param browser - Browser profile to use
+   * @param isHeadless - Run in headless mode
+   * @param deviceName - Device profile to emulate, the configured window size otherwise
+   * @returns Configured WebDriver instance
+   */
+  private async buildDriver(browser: string, isHeadless: boolean, deviceName?: string): Promise<WebDriver> {
+    const browserConfig = config.getBrowserConfig();
+    const profile = this.getBrowserProfile(browser);
+    const device = deviceName ? getDeviceProfile(deviceName) : undefined;
+    const captureLogs = config.getConfig().screenshots.browserLogs;
+    const monitorPageErrors = config.getPageErrorsConfig().enabled;
+    const settings = {
+      headless: isHeadless,
+      windowSize: device ? { width: device.width, height: device.height } : browserConfig.windowSize,
+      device,
+      captureLogs,
+      bidi: monitorPageErrors
+    };
+
+    const options = profile.createOptions(settings);
+    this.applyRemoteCapabilities(options, browserConfig.remote);
+
+    const builder = new Builder();
+    profile.applyTo(builder, options);
 
-      builder.forBrowser('firefox').setFirefoxOptions(firefoxOptions);
+    if (browserConfig.remote) {
+      builder.usingServer(browserConfig.remote.url);
     }
 
-    this.driver = await builder.build();
+    const driver = await builder.build();
 
     const timeouts = config.getTimeoutConfig();
-    await this.driver.manage().setTimeouts({
+    await driver.manage().setTimeouts({
       implicit: timeouts.implicit,
       pageLoad: timeouts.pageLoad,
       script: timeouts.explicit
     });
 
-    return this.driver;
+    if (profile.afterStart) {
+      await profile.afterStart(driver, settings);
+    }
+
+    if (captureLogs) {
+      await BrowserLogCollector.attach(driver);
+    }
+
+    if (monitorPageErrors) {
+      await PageErrorMonitor.attach(driver);
+    }
+
+    if (browserConfig.network) {
+      await NetworkEmulator.apply(driver, browserConfig.network);
+    }
+
+    return driver;
   }
 
   /**
-   * Get current WebDriver instance
-   * @returns Current WebDriver instance
-   * @throws Error if driver not initialized
+   * Add remote platform, version and Grid session metadata to browser options
+   * @param options - Browser options to extend
+   * @param remote - Remote settings, ignored when running locally
    */
-  public getDriver(): WebDriver {
-    if (!this.driver) {
-      throw new Error('WebDriver not initialized. Call createDriver() first.');
+  private applyRemoteCapabilities(options: Capabilities, remote?: RemoteConfig): void {
+    if (!remote) return;
+
+    if (remote.platformName) {
+      options.setPlatform(remote.platformName);
+    }
+    if (remote.browserVersion) {
+      options.setBrowserVersion(remote.browserVersion);
+    }
+    if (remote.sessionName) {
+      options.set('se:name', remote.sessionName);
+    }
+    if (remote.tags.length > 0) {
+      options.set('se:tags', remote.tags);
     }
-    return this.driver;
   }
 
   /**
-   * Quit WebDriver and cleanup
+   * Ask the Grid which node is running a session
+   * Tries the Grid 4 GraphQL endpoint, then the Grid 3 test session API
+   * @param driver - Remote WebDriver session
+   * @param remoteUrl - Hub URL the session was created on
+   * @returns Node URI, or the hub host if the Grid does not say
    */
-  public async quitDriver(): Promise<void> {
-    if (this.driver) {
-      try {
-        await this.driver.quit();
-      } catch (error) {
-        console.error('Error quitting driver:', (error as Error).message);
-      } finally {
-        this.driver = null;
+  private async resolveSessionNode(driver: WebDriver, remoteUrl: string): Promise<string> {
+    const hub = new URL(remoteUrl);
+    const gridRoot = `${hub.protocol}//${hub.host}`;
+
+    try {
+      const sessionId = (await driver.getSession()).getId();
+
+      const graphql = await fetch(`${gridRoot}/graphql`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          query: 'query ($id: String!) { session (id: $id) { nodeId, nodeUri } }',
+          variables: { id: sessionId }
+        }),
+        signal: AbortSignal.timeout(GRID_API_TIMEOUT)
+      });
+      if (graphql.ok) {
+        const body = await graphql.json() as { data?: { session?: { nodeUri?: string } } };
+        if (body.data?.session?.nodeUri) {
+          return body.data.session.nodeUri;
+        }
+      }
+
+      const legacy = await fetch(`${gridRoot}/grid/api/testsession?session=${encodeURIComponent(sessionId)}`, {
+        signal: AbortSignal.timeout(GRID_API_TIMEOUT)
+      });
+      if (legacy.ok) {
+        const body = await legacy.json() as { proxyId?: string };
+        if (body.proxyId) {
+          return body.proxyId;
+        }
       }
+    } catch (error) {
+      console.warn('Could not resolve Grid node for session:', (error as Error).message);
+    }
+
+    return hub.host;
+  }
+
+  /**
+   * Clear cookies and storage so the session can be handed to another suite
+   * @returns False if the session could not be reset and should be dropped
+   */
+  private async resetSession(driver: WebDriver): Promise<boolean> {
+    try {
+      await driver.manage().deleteAllCookies();
+      await driver.executeScript('try { window.localStorage.clear(); window.sessionStorage.clear(); } catch (e) {}');
+      await driver.get('about:blank');
+      await this.restoreNetwork(driver);
+      await BrowserLogCollector.clear(driver);
+      PageErrorMonitor.clear(driver);
+      return true;
+    } catch (error) {
+      console.warn('Could not reset driver for reuse:', (error as Error).message);
+      return false;
+    }
+  }
+
+  // Go back to the configured network profile, or the unthrottled network without one
+  private async restoreNetwork(driver: WebDriver): Promise<void> {
+    const network = config.getBrowserConfig().network;
+    if (network) {
+      await NetworkEmulator.apply(driver, network);
+    } else {
+      await NetworkEmulator.reset(driver);
     }
   }
 
+  // Quit a session and remove it from the pool
+  private async closeSession(session: PooledSession): Promise<void> {
+    this.sessions = this.sessions.filter(s => s !== session);
+    try {
+      await VideoRecorder.stop(session.driver, false);
+      await session.driver.quit();
+    } catch (error) {
+      console.error('Error quitting driver:', (error as Error).message);
+    }
+    this.notifyWaiter();
+  }
+
+  private waitForRelease(timeout: number): Promise<void> {
+    return new Promise(resolve => {
+      const waiter = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        resolve();
+      }, timeout);
+      this.waiters.push(waiter);
+    });
+  }
+
+  private notifyWaiter(): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter();
+    }
+  }
+
+  /**
+   * Get the page errors recorded for the current owner's session since the last clear
+   * @returns Uncaught exceptions and 4xx/5xx responses, empty when monitoring is off
+   */
+  public getPageErrors(): PageError[] {
+    const session = this.currentSession();
+    return session ? PageErrorMonitor.getErrors(session.driver) : [];
+  }
+
+  /**
+   * Assert that no page errors were recorded for the current owner's session
+   * @throws Error listing every recorded page error
+   */
+  public async expectNoPageErrors(): Promise<void> {
+    const session = this.currentSession();
+    if (session) {
+      await PageErrorMonitor.expectNoPageErrors(session.driver);
+    }
+  }
+
+  // Forget the page errors recorded for the current owner's session
+  public clearPageErrors(): void {
+    const session = this.currentSession();
+    if (session) {
+      PageErrorMonitor.clear(session.driver);
+    }
+  }
+
+  // Forget the console and network entries recorded for the current owner's session
+  public async clearBrowserLogs(): Promise<void> {
+    const session = this.currentSession();
+    if (session) {
+      await BrowserLogCollector.clear(session.driver);
+    }
+  }
+
+  /**
+   * Emulate a network profile on the current owner's session, e.g. for a single test
+   * The root afterEach hook goes back to the configured profile after every test
+   * @param profile - Network profile, e.g. 3g, slow-4g, high-latency, offline;
+   * the configured profile when omitted
+   */
+  public async emulateNetwork(profile?: string): Promise<void> {
+    const session = this.currentSession();
+    if (!session) {
+      throw new Error('WebDriver not initialized. Call createDriver() first.');
+    }
+    if (profile) {
+      await NetworkEmulator.apply(session.driver, profile);
+    } else {
+      await this.restoreNetwork(session.driver);
+    }
+  }
+
+  /**
+   * Get the network profile the current owner's session emulates
+   * @returns Network profile name, undefined for an unthrottled network
+   */
+  public getNetworkProfile(): string | undefined {
+    const session = this.currentSession();
+    return session ? NetworkEmulator.getProfile(session.driver) : undefined;
+  }
+
+  /**
+   * Start recording the current owner's session when video.mode is not off
+   * @param testName - Name of the test being recorded
+   */
+  public async startRecording(testName: string): Promise<void> {
+    const session = this.currentSession();
+    if (session) {
+      await VideoRecorder.start(session.driver, testName);
+    }
+  }
+
+  /**
+   * Stop recording the current owner's session
+   * @param keep - Keep the video, otherwise it is discarded
+   * @returns Video attachment, undefined when nothing was kept
+   */
+  public async stopRecording(keep: boolean): Promise<Attachment | undefined> {
+    const session = this.currentSession();
+    return session ? await VideoRecorder.stop(session.driver, keep) : undefined;
+  }
+
   /**
-   * Capture screenshot on test failure
+   * Capture screenshot and other failure evidence for the current owner's session
    * @param testName - Name of the failed test
+   * @returns Evidence attachments, empty if none were captured
    */
-  public async captureFailureScreenshot(testName: string): Promise<void> {
-    if (this.driver && config.getConfig().screenshots.onFailure) {
+  public async captureFailureScreenshot(testName: string): Promise<Attachment[]> {
+    const session = this.currentSession();
+    if (session && config.getConfig().screenshots.onFailure) {
       try {
-        await ScreenshotUtils.captureFailureEvidence(this.driver, testName);
+        return await ScreenshotUtils.captureFailureEvidence(session.driver, testName);
       } catch (error) {
         console.error('Failed to capture screenshot:', (error as Error).message);
       }
     }
+    return [];
   }
 
 }
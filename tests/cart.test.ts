@@ -1,8 +1,9 @@
 import { expect } from 'chai';
 import { WebDriver } from 'selenium-webdriver';
 import WebDriverManager from '../src/utils/WebDriverManager.js';
+import AuthHelper from '../src/utils/AuthHelper.js';
+import CartState from '../src/utils/CartState.js';
 import TestDataReader from '../src/utils/TestDataReader.js';
-import LoginPage from '../src/pages/LoginPage.js';
 import ProductsPage from '../src/pages/ProductsPage.js';
 import CartPage from '../src/pages/CartPage.js';
 
@@ -10,20 +11,16 @@ describe('Cart Tests', function() {
   this.timeout(60000);
  
   let driver: WebDriver;
-  let loginPage: LoginPage;
   let productsPage: ProductsPage;
   let cartPage: CartPage;
 
   before(async function() {
     console.log('Starting cart test suite');
     driver = await WebDriverManager.createDriver();
-    loginPage = new LoginPage(driver);
     productsPage = new ProductsPage(driver);
     cartPage = new CartPage(driver);
    
-    const user = await TestDataReader.getStandardUser();
-    await loginPage.open();
-    await loginPage.login(user.username, user.password);
+    await AuthHelper.login(driver, await TestDataReader.getStandardUser(), this.test?.parent?.title || '');
   });
 
   after(async function() {
@@ -32,8 +29,7 @@ describe('Cart Tests', function() {
   });
 
   beforeEach(async function() {
-    await loginPage.open();
-    await loginPage.login((await TestDataReader.getStandardUser()).username, 'secret_sauce');
+    await AuthHelper.login(driver, await TestDataReader.getStandardUser(), this.currentTest?.parent?.title || '');
     await productsPage.resetAppState();
   });
 
@@ -47,7 +43,7 @@ describe('Cart Tests', function() {
   });
 
   it('should remove item from cart', async function() {
-    await productsPage.addProductToCartByName('Sauce Labs Backpack');
+    await CartState.setCart(driver, ['Sauce Labs Backpack']);
     await productsPage.goToCart();
    
     let itemCount = await cartPage.getCartItemCount();
@@ -58,9 +54,22 @@ describe('Cart Tests', function() {
     expect(isEmpty).to.be.true;
   });
 
+  it('should show quantity and price in the cart row', async function() {
+    await (await productsPage.item('Sauce Labs Bike Light')).addToCart();
+    await productsPage.goToCart();
+
+    const row = await cartPage.row('Sauce Labs Bike Light');
+    expect(await row.getQuantity()).to.equal(1);
+    expect(await row.getPrice()).to.equal(9.99);
+    expect(await row.isRemovable()).to.be.true;
+
+    await row.remove();
+    expect(await (await cartPage.header()).getCartItemCount()).to.equal(0);
+  });
+
   it('should calculate correct subtotal', async function() {
     const products = ['Sauce Labs Backpack', 'Sauce Labs Bike Light'];
-    await productsPage.addMultipleProductsToCart(products);
+    await CartState.setCart(driver, products);
     await productsPage.goToCart();
    
     const expectedSubtotal = await cartPage.calculateExpectedSubtotal();
@@ -94,10 +103,9 @@ describe('Cart Tests', function() {
     const scenarios = await TestDataReader.getShoppingScenarios();
    
     for (const scenario of scenarios) {
-      await loginPage.open();
-      await loginPage.login((await TestDataReader.getStandardUser()).username, 'secret_sauce');
+      await AuthHelper.login(driver, await TestDataReader.getStandardUser(), this.test?.parent?.title || '');
      
-      await productsPage.addMultipleProductsToCart(scenario.products);
+      await CartState.setCart(driver, scenario.products);
       await productsPage.goToCart();
      
       const actualSubtotal = await cartPage.calculateExpectedSubtotal();
@@ -196,4 +204,56 @@ describe('Cart Tests', function() {
     const isComplete = await cartPage.isOrderComplete();
     expect(isComplete).to.be.true;
   });
+
+  it('should move through the checkout steps page by page', async function() {
+    const checkoutData = (await TestDataReader.getValidCheckoutData())[0];
+    await productsPage.addProductToCartByName('Sauce Labs Backpack');
+
+    const cart = await productsPage.goToCart();
+    expect(await cart.isOnCartPage()).to.be.true;
+
+    const informationPage = await cart.proceedToCheckout();
+    expect(await informationPage.isOnCheckoutInformationPage()).to.be.true;
+    await informationPage.fillCheckoutInformation(checkoutData);
+
+    const overviewPage = await informationPage.continueToOverview();
+    expect(await overviewPage.isOnCheckoutOverviewPage()).to.be.true;
+    expect(await overviewPage.getCartItems()).to.have.lengthOf(1);
+    expect(await overviewPage.verifyOrderCalculations()).to.be.true;
+
+    const completePage = await overviewPage.finish();
+    expect(await completePage.isOnCheckoutCompletePage()).to.be.true;
+
+    const products = await completePage.backToProducts();
+    expect(await products.isOnProductsPage()).to.be.true;
+  });
+
+  it('should go back from each checkout step when cancelling', async function() {
+    const checkoutData = (await TestDataReader.getValidCheckoutData())[0];
+    await productsPage.addProductToCartByName('Sauce Labs Backpack');
+
+    const informationPage = await (await productsPage.goToCart()).proceedToCheckout();
+    const cart = await informationPage.cancel();
+    expect(await cart.isOnCartPage()).to.be.true;
+
+    const nextInformationPage = await cart.proceedToCheckout();
+    await nextInformationPage.fillCheckoutInformation(checkoutData);
+    const overviewPage = await nextInformationPage.continueToOverview();
+    const products = await overviewPage.cancel();
+    expect(await products.isOnProductsPage()).to.be.true;
+    expect(await products.getCartItemCount()).to.equal(1);
+  });
+
+  it('should have no critical accessibility violations in cart and checkout', async function() {
+    await productsPage.addProductToCartByName('Sauce Labs Backpack');
+    await productsPage.goToCart();
+    const cartAudit = await cartPage.auditAccessibility();
+
+    const informationPage = await cartPage.proceedToCheckout();
+    const checkoutAudit = await informationPage.auditAccessibility();
+
+    const critical = [...cartAudit.violations, ...checkoutAudit.violations]
+      .filter(violation => violation.impact === 'critical');
+    expect(critical.map(violation => violation.id)).to.be.empty;
+  });
 });
\ No newline at end of file
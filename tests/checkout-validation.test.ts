@@ -0,0 +1,79 @@
+import { expect } from 'chai';
+import { WebDriver } from 'selenium-webdriver';
+
+import WebDriverManager from '../src/utils/WebDriverManager.js';
+import AuthHelper from '../src/utils/AuthHelper.js';
+import TestDataReader from '../src/utils/TestDataReader.js';
+import ProductsPage from '../src/pages/ProductsPage.js';
+import CheckoutInformationPage from '../src/pages/CheckoutInformationPage.js';
+import type { CheckoutField } from '../src/types/index.js';
+
+// Read up front so each invalid entry gets its own test
+const invalidCheckoutData = await TestDataReader.getInvalidCheckoutData();
+
+describe('Checkout Validation Tests', function() {
+  this.timeout(60000);
+
+  let driver: WebDriver;
+  let productsPage: ProductsPage;
+  let informationPage: CheckoutInformationPage;
+
+  before(async function() {
+    console.log('Starting checkout validation test suite');
+    driver = await WebDriverManager.createDriver();
+    productsPage = new ProductsPage(driver);
+
+    await AuthHelper.login(driver, await TestDataReader.getStandardUser(), this.test?.parent?.title || '');
+    await productsPage.addProductToCartByName('Sauce Labs Backpack');
+  });
+
+  after(async function() {
+    await WebDriverManager.quitDriver();
+    console.log('Checkout validation test suite completed');
+  });
+
+  beforeEach(async function() {
+    await productsPage.navigateToProductsPage();
+    informationPage = await (await productsPage.goToCart()).proceedToCheckout();
+  });
+
+  for (const checkoutData of invalidCheckoutData) {
+    const emptyFields = (Object.keys(checkoutData) as Array<CheckoutField | 'expectedError'>)
+      .filter((field): field is CheckoutField => field !== 'expectedError' && checkoutData[field] === '');
+
+    it(`should show "${checkoutData.expectedError}" when ${emptyFields.join(', ')} is empty`, async function() {
+      await informationPage.fillCheckoutInformation(checkoutData);
+      await informationPage.continueToOverview();
+
+      expect(await informationPage.isOnCheckoutInformationPage()).to.be.true;
+      expect(await informationPage.getErrorMessage()).to.equal(checkoutData.expectedError);
+      for (const field of emptyFields) {
+        expect(await informationPage.isFieldInError(field), `${field} highlighted`).to.be.true;
+      }
+    });
+  }
+
+  it('should clear the error and the field highlights when the error is closed', async function() {
+    const checkoutData = invalidCheckoutData[0];
+    await informationPage.fillCheckoutInformation(checkoutData);
+    await informationPage.continueToOverview();
+    expect(await informationPage.isErrorDisplayed()).to.be.true;
+
+    await informationPage.closeError();
+
+    expect(await informationPage.isErrorDisplayed()).to.be.false;
+    expect(await informationPage.getErrorMessage()).to.equal('');
+    expect(await informationPage.isFieldInError('firstName')).to.be.false;
+  });
+
+  it('should continue to the overview once the form is corrected', async function() {
+    await informationPage.fillCheckoutInformation(invalidCheckoutData[0]);
+    await informationPage.continueToOverview();
+    expect(await informationPage.isErrorDisplayed()).to.be.true;
+
+    await informationPage.fillCheckoutInformation((await TestDataReader.getValidCheckoutData())[0]);
+    const overviewPage = await informationPage.continueToOverview();
+
+    expect(await overviewPage.isOnCheckoutOverviewPage()).to.be.true;
+  });
+});
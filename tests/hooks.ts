@@ -1,81 +1,217 @@
-import { existsSync, readdirSync } from 'fs';
-import { join } from 'path';
-
+import config from '../src/config/test.config.js';
+import LocalSauceDemoServer from '../src/server/LocalSauceDemoServer.js';
+import AccessibilityAuditor from '../src/utils/AccessibilityAuditor.js';
+import LocatorHealer from '../src/utils/LocatorHealer.js';
+import PerformanceMonitor from '../src/utils/PerformanceMonitor.js';
 import ReportGenerator from '../src/utils/ReportGenerator.js';
-import type { TestResult } from '../src/types/index.js';
+import ScreenshotUtils from '../src/utils/ScreenshotUtils.js';
+import WebDriverManager from '../src/utils/WebDriverManager.js';
+import type { FailedAttempt, ReportData, RunResults, TestResult } from '../src/types/index.js';
 
 const testResults: TestResult[] = [];
+// Set in the main process, where the run's reports are written once every worker is done
 let startTime: number = 0;
 
+// Failed attempts and their errors per test, keyed by full title, until the test settles
+const attemptHistory = new Map<string, FailedAttempt[]>();
+const attemptErrors = new Map<string, Error>();
+const wrappedTests = new WeakSet<Mocha.Func | Mocha.AsyncFunc>();
+
+export function mochaGlobalSetup(): void {
+  startTime = Date.now();
+}
+
+/**
+ * Merge the results of every process and write the reports and run history once per run;
+ * runs in the main process, after Mocha parallel workers finished all spec files
+ */
+export async function mochaGlobalTeardown(): Promise<void> {
+  const duration = Date.now() - startTime;
+  let results: RunResults | undefined;
+  try {
+    results = await ReportGenerator.mergeResults();
+  } catch (error) {
+    console.error('Failed to generate report:', (error as Error).message);
+  }
+  if (!results) return;
+
+  console.log('\n' + '='.repeat(80));
+  console.log('Generating Reports...');
+
+  try {
+    const reportData = ReportGenerator.prepareReportData(results.testResults, duration, results.gridNodes);
+    const reportPaths = await ReportGenerator.generateReports(reportData);
+
+    reportPaths.forEach(reportPath => console.log(`Report generated: ${reportPath}`));
+    printSummary(reportData);
+  } catch (error) {
+    console.error('Failed to generate report:', (error as Error).message);
+  }
+
+  console.log('='.repeat(80) + '\n');
+}
+
 export const mochaHooks = {
-  beforeAll(): void {
-    startTime = Date.now();
+  async beforeAll(): Promise<void> {
+    const localServer = config.getConfig().localServer;
+    if (localServer.enabled) {
+      const url = await LocalSauceDemoServer.start(localServer.port, localServer.host, localServer.advertisedHost);
+      config.setBaseUrl(url);
+      console.log(`Local SauceDemo server running at ${url}`);
+    }
     console.log('\nTest execution started...\n');
   },
 
-  afterEach(this: Mocha.Context): void {
+  async beforeEach(this: Mocha.Context): Promise<void> {
+    const currentTest = this.currentTest;
+
+    if (!currentTest) return;
+
+    // Retries set in code with this.retries() win over the configured ones
+    if (currentTest.retries() < 0) {
+      currentTest.retries(config.getRetries(currentTest.parent?.title || '', currentTest.title));
+    }
+
+    const pageErrors = config.getPageErrorsConfig();
+    if (pageErrors.enabled) {
+      WebDriverManager.clearPageErrors();
+    }
+    // Failure evidence only holds the console and network entries of this test
+    if (config.getConfig().screenshots.browserLogs) {
+      await WebDriverManager.clearBrowserLogs();
+    }
+
+    const failOnPageErrors = pageErrors.enabled && pageErrors.failTests;
+    if (currentTest.retries() > 0 || failOnPageErrors) {
+      wrapTest(currentTest, failOnPageErrors);
+    }
+
+    // Drop snapshot images, audits, timings and healed locators left over from before() hooks
+    ScreenshotUtils.takeSnapshotAttachments();
+    AccessibilityAuditor.takeAudits();
+    PerformanceMonitor.takeRecords();
+    LocatorHealer.takeHealings();
+    await WebDriverManager.startRecording(currentTest.fullTitle());
+  },
+
+  async afterEach(this: Mocha.Context): Promise<void> {
     const currentTest = this.currentTest;
     
     if (!currentTest) return;
 
+    const key = currentTest.fullTitle();
+    const failedAttempts = attemptHistory.get(key) || [];
+    const attempt = failedAttempts.length + 1;
+
+    // No state yet means the attempt failed and Mocha is about to retry it
+    const retrying = currentTest.state === undefined && !currentTest.isPending();
+    const failed = retrying || currentTest.state === 'failed';
+    // Videos of failed attempts are kept, so a flaky test keeps the recordings of its failures
+    const video = await WebDriverManager.stopRecording(failed || config.getVideoConfig().keep === 'all');
+    const attachments = failed
+      ? await WebDriverManager.captureFailureScreenshot(`${currentTest.fullTitle()}_attempt_${attempt}`)
+      : [];
+    if (video) {
+      attachments.push(video);
+    }
+    attachments.push(...ScreenshotUtils.takeSnapshotAttachments());
+    const screenshot = attachments.find(attachment => attachment.type === 'screenshot')?.path;
+    const pageErrors = WebDriverManager.getPageErrors();
+    const audits = AccessibilityAuditor.takeAudits();
+    const performance = PerformanceMonitor.takeRecords();
+    const healedLocators = LocatorHealer.takeHealings();
+    const networkProfile = WebDriverManager.getNetworkProfile();
+    // Profiles set by a test end with it, the next attempt or test starts on the configured one
+    if (networkProfile !== config.getBrowserConfig().network) {
+      await WebDriverManager.emulateNetwork().catch((error: Error) =>
+        console.warn('Could not restore the network profile:', error.message));
+    }
+
+    if (retrying) {
+      failedAttempts.push({
+        attempt,
+        duration: currentTest.duration || 0,
+        error: attemptErrors.get(key)?.message,
+        screenshot,
+        attachments
+      });
+      attemptHistory.set(key, failedAttempts);
+      return;
+    }
+    attemptHistory.delete(key);
+    attemptErrors.delete(key);
+
     const result: TestResult = {
       suiteName: currentTest.parent?.title || 'Unknown Suite',
       testName: currentTest.title,
-      status: currentTest.state === 'passed' ? 'passed' : 
-              currentTest.state === 'failed' ? 'failed' : 'skipped',
+      status: resolveStatus(currentTest, failedAttempts.length > 0),
       duration: currentTest.duration || 0,
       error: currentTest.state === 'failed' && currentTest.err ? 
              currentTest.err.message : undefined,
-      screenshot: currentTest.state === 'failed' ? 
-                  findScreenshotForTest(currentTest.title) : undefined
+      screenshot,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      attempts: attempt,
+      failedAttempts: failedAttempts.length > 0 ? failedAttempts : undefined,
+      pageErrors: pageErrors.length > 0 ? pageErrors : undefined,
+      accessibility: audits.length > 0 ? audits : undefined,
+      performance: performance.length > 0 ? performance : undefined,
+      networkProfile,
+      healedLocators: healedLocators.length > 0 ? healedLocators : undefined
     };
 
     testResults.push(result);
   },
 
   async afterAll(): Promise<void> {
-    const duration = Date.now() - startTime;
-    
-    console.log('\n' + '='.repeat(80));
-    console.log('Generating HTML Report...');
-    
+    const gridNodes = WebDriverManager.getGridNodes();
+    await WebDriverManager.quitAll();
+
+    // Reports are written by mochaGlobalTeardown from the results of every process
     try {
-      const reportData = ReportGenerator.prepareReportData(testResults, duration);
-      const reportPath = await ReportGenerator.generateHtmlReport(reportData);
-      
-      console.log(`HTML Report generated: ${reportPath}`);
-      printSummary(reportData);
+      await ReportGenerator.saveResults({ testResults, gridNodes });
     } catch (error) {
-      console.error('Failed to generate report:', (error as Error).message);
+      console.error('Failed to save test results:', (error as Error).message);
     }
-    
-    console.log('='.repeat(80) + '\n');
+
+    await LocalSauceDemoServer.stop();
   }
 };
 
-function findScreenshotForTest(testName: string): string | undefined {
-  try {
-    const screenshotDir = './reports/screenshots';
-    
-    if (!existsSync(screenshotDir)) {
-      return undefined;
-    }
-
-    const files = readdirSync(screenshotDir);
-    const sanitizedTestName = testName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-    
-    const screenshotFile = files.find((file: string) => 
-      file.includes(sanitizedTestName) && file.includes('failure')
-    );
-    
-    return screenshotFile ? join(screenshotDir, screenshotFile) : undefined;
-  } catch {
-    return undefined;
+// A test that passed after failed attempts is flaky
+function resolveStatus(test: Mocha.Test, retried: boolean): TestResult['status'] {
+  if (test.state === 'passed') {
+    return retried ? 'flaky' : 'passed';
   }
+  return test.state === 'failed' ? 'failed' : 'skipped';
+}
+
+/**
+ * Keep the error of each attempt, Mocha only hands the final error to afterEach,
+ * and fail the test on recorded page errors when pageErrors.failTests is set
+ * Tests taking a done callback are left alone, their retried attempts have no error
+ */
+function wrapTest(test: Mocha.Test, failOnPageErrors: boolean): void {
+  const fn = test.fn;
+  if (!fn || fn.length > 0 || wrappedTests.has(fn)) return;
+
+  const key = test.fullTitle();
+  const wrapped = async function(this: Mocha.Context): Promise<void> {
+    try {
+      await (fn as Mocha.AsyncFunc).call(this);
+      if (failOnPageErrors) {
+        await WebDriverManager.expectNoPageErrors();
+      }
+    } catch (error) {
+      attemptErrors.set(key, error as Error);
+      throw error;
+    }
+  };
+  wrappedTests.add(wrapped);
+  test.fn = wrapped;
 }
 
-function printSummary(reportData: any): void {
-  const passRate = ((reportData.passed / reportData.totalTests) * 100).toFixed(2);
+function printSummary(reportData: ReportData): void {
+  const passRate = (((reportData.passed + reportData.flaky) / reportData.totalTests) * 100).toFixed(2);
   
   console.log('\nTest Summary:');
   console.log('-------------');
@@ -83,6 +219,7 @@ function printSummary(reportData: any): void {
   console.log(`Passed: ${reportData.passed}`);
   console.log(`Failed: ${reportData.failed}`);
   console.log(`Skipped: ${reportData.skipped}`);
+  console.log(`Flaky: ${reportData.flaky}`);
   console.log(`Pass Rate: ${passRate}%`);
   console.log(`Duration: ${(reportData.duration / 1000).toFixed(2)}s`);
 }
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import { WebDriver, By, WebElement } from 'selenium-webdriver';
+
+import WebDriverManager from '../src/utils/WebDriverManager.js';
+import Locator from '../src/utils/Locator.js';
+import LocatorHealer from '../src/utils/LocatorHealer.js';
+import LoginPage from '../src/pages/LoginPage.js';
+import BasePage from '../src/pages/BasePage.js';
+
+// Login page whose primary locators went stale, as after a markup change
+class StaleLoginPage extends BasePage {
+  public readonly username: Locator = new Locator('username input', By.id('username-old'))
+    .orDataTest('username');
+  public readonly loginButton: Locator = new Locator('login button', By.css('.login-btn-old'))
+    .orText('Sign in', 'button').orCss('input[type="submit"]');
+  public readonly missing: Locator = new Locator('missing input', By.id('nope')).orDataTest('nope');
+
+  public async find(locator: Locator): Promise<WebElement> {
+    return await this.findElement(locator, 2000);
+  }
+}
+
+describe('Locator Tests', function() {
+  this.timeout(60000);
+
+  let driver: WebDriver;
+  let loginPage: LoginPage;
+  let stalePage: StaleLoginPage;
+
+  before(async function() {
+    console.log('Starting locator test suite');
+    driver = await WebDriverManager.createDriver();
+    loginPage = new LoginPage(driver);
+    stalePage = new StaleLoginPage(driver);
+  });
+
+  after(async function() {
+    await WebDriverManager.quitDriver();
+    console.log('Locator test suite completed');
+  });
+
+  beforeEach(async function() {
+    await loginPage.open();
+  });
+
+  it('should not record healing when the primary locator works', async function() {
+    expect(await loginPage.isUsernameFieldDisplayed()).to.be.true;
+    expect(LocatorHealer.takeHealings()).to.be.empty;
+  });
+
+  it('should heal a stale locator through its fallbacks and suggest a replacement', async function() {
+    // Fallbacks are probed without the implicit wait, a stale primary costs no extra time
+    this.timeout(10000);
+
+    const username = await stalePage.find(stalePage.username);
+    const loginButton = await stalePage.find(stalePage.loginButton);
+    await stalePage.find(stalePage.username);
+
+    expect(await username.getAttribute('id')).to.equal('user-name');
+    expect(await loginButton.getAttribute('id')).to.equal('login-button');
+
+    const healings = LocatorHealer.takeHealings();
+    expect(healings.map(healing => healing.locator)).to.deep.equal(['username input', 'login button']);
+    expect(healings[0]).to.include({
+      page: 'StaleLoginPage',
+      primary: "By.id('username-old')",
+      strategy: 'dataTest',
+      fallback: `By.css('[data-test="username"]')`,
+      suggestion: `By.css('[data-test="username"]')`
+    });
+    expect(healings[1]).to.include({
+      strategy: 'css',
+      fallback: `By.css('input[type="submit"]')`,
+      suggestion: `By.css('[data-test="login-button"]')`
+    });
+  });
+
+  it('should fail when neither the primary nor a fallback finds the element', async function() {
+    // The 2000 ms lookup timeout holds despite the implicit wait
+    this.timeout(8000);
+
+    const start = Date.now();
+    let error: Error | undefined;
+    try {
+      await stalePage.find(stalePage.missing);
+    } catch (caught) {
+      error = caught as Error;
+    }
+    expect(error, 'Lookup should have failed').to.be.instanceOf(Error);
+    expect(error?.message).to.include('missing input');
+    expect(Date.now() - start).to.be.below(5000);
+    expect(LocatorHealer.takeHealings()).to.be.empty;
+  });
+});
@@ -3,6 +3,7 @@ import { WebDriver } from 'selenium-webdriver';
 
 import WebDriverManager from '../src/utils/WebDriverManager.js';
 import TestDataReader from '../src/utils/TestDataReader.js';
+import AuthHelper from '../src/utils/AuthHelper.js';
 import LoginPage from '../src/pages/LoginPage.js';
 import ProductsPage from '../src/pages/ProductsPage.js';
 
@@ -116,4 +117,49 @@ describe('Login Tests', function() {
     expect(onLoginPage).to.be.true;
   });
 
+  it('should retry a login click intercepted by an overlay', async function() {
+    const user = await TestDataReader.getStandardUser();
+    await loginPage.enterUsername(user.username);
+    await loginPage.enterPassword(user.password);
+
+    // A full page overlay that covers the login button for a second, like a toast or spinner
+    await driver.executeScript(`
+      const overlay = document.createElement('div');
+      overlay.style.cssText = 'position:fixed;inset:0;z-index:10000;background:rgba(0,0,0,0.2)';
+      document.body.appendChild(overlay);
+      setTimeout(() => overlay.remove(), 1000);
+    `);
+    await loginPage.clickLoginButton();
+
+    expect(await productsPage.isOnProductsPage()).to.be.true;
+  });
+
+  it('should reach the products page with the session cookie', async function() {
+    await driver.manage().deleteAllCookies();
+
+    await AuthHelper.loginWithSessionCookie(driver, await TestDataReader.getStandardUser());
+
+    expect(await productsPage.isOnProductsPage()).to.be.true;
+  });
+
+  it('should refuse a session cookie login for a locked out user', async function() {
+    const user = await TestDataReader.getRequiredUser('locked_out_user');
+
+    let error: Error | undefined;
+    try {
+      await AuthHelper.loginWithSessionCookie(driver, user);
+    } catch (caught) {
+      error = caught as Error;
+    }
+    expect(error, 'Session cookie login should have been refused').to.be.instanceOf(Error);
+    expect(error?.message).to.include('the login form rejects this user');
+  });
+
+  it('should have no critical accessibility violations', async function() {
+    const audit = await loginPage.auditAccessibility();
+
+    const critical = audit.violations.filter(violation => violation.impact === 'critical');
+    expect(critical.map(violation => violation.id)).to.be.empty;
+  });
+
 });
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { expect } from 'chai';
+import { WebDriver } from 'selenium-webdriver';
+
+import { NETWORK_PROFILES } from '../src/config/network.profiles.js';
+import WebDriverManager from '../src/utils/WebDriverManager.js';
+import AuthHelper from '../src/utils/AuthHelper.js';
+import NetworkEmulator from '../src/utils/NetworkEmulator.js';
+import TestDataReader from '../src/utils/TestDataReader.js';
+import ProductsPage from '../src/pages/ProductsPage.js';
+
+describe('Network Tests', function() {
+  this.timeout(120000);
+
+  let driver: WebDriver;
+  let productsPage: ProductsPage;
+
+  before(async function() {
+    console.log('Starting network test suite');
+    driver = await WebDriverManager.createDriver();
+    productsPage = new ProductsPage(driver);
+
+    // Network emulation goes through the DevTools Protocol, Chrome and Edge only
+    try {
+      await NetworkEmulator.apply(driver, 'high-latency');
+      await WebDriverManager.emulateNetwork();
+    } catch (error) {
+      console.log(`Skipping network tests: ${(error as Error).message}`);
+      this.skip();
+    }
+  });
+
+  after(async function() {
+    if (!driver) return;
+    await WebDriverManager.quitDriver();
+    console.log('Network test suite completed');
+  });
+
+  it('should wait for the products page on 3G', async function() {
+    await WebDriverManager.emulateNetwork('3g');
+    expect(WebDriverManager.getNetworkProfile()).to.equal('3g');
+
+    const user = await TestDataReader.getRequiredUser('standard_user');
+    await AuthHelper.loginWithSessionCookie(driver, user);
+    expect(await productsPage.isOnProductsPage()).to.be.true;
+
+    await (await productsPage.item('Sauce Labs Backpack')).addToCart();
+    expect(await productsPage.getCartItemCount()).to.equal(1);
+  });
+
+  it('should add the latency to the time to first byte', async function() {
+    const user = await TestDataReader.getRequiredUser('standard_user');
+    await AuthHelper.loginWithSessionCookie(driver, user);
+    const unthrottled = await productsPage.getPerformanceTimings();
+
+    await WebDriverManager.emulateNetwork('high-latency');
+    await productsPage.refreshPage();
+    const delayed = await productsPage.getPerformanceTimings();
+
+    expect(delayed.ttfb).to.be.above(unthrottled.ttfb);
+    expect(delayed.ttfb).to.be.at.least(NETWORK_PROFILES['high-latency'].latency / 2);
+  });
+
+  it('should load the products page for performance_glitch_user on slow 4G', async function() {
+    await WebDriverManager.emulateNetwork('slow-4g');
+
+    const user = await TestDataReader.getRequiredUser('performance_glitch_user');
+    await AuthHelper.loginWithSessionCookie(driver, user);
+    expect(await productsPage.isOnProductsPage()).to.be.true;
+    expect(await productsPage.getProductCount()).to.equal(6);
+  });
+
+  it('should not reach the app offline', async function() {
+    const user = await TestDataReader.getRequiredUser('standard_user');
+    await AuthHelper.loginWithSessionCookie(driver, user);
+
+    await WebDriverManager.emulateNetwork('offline');
+    await driver.navigate().refresh();
+    expect(await productsPage.isOnProductsPage()).to.be.false;
+
+    await WebDriverManager.emulateNetwork();
+    await productsPage.refreshPage();
+    expect(await productsPage.isOnProductsPage()).to.be.true;
+  });
+});
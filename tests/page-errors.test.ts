@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import { WebDriver } from 'selenium-webdriver';
+
+import config from '../src/config/test.config.js';
+import WebDriverManager from '../src/utils/WebDriverManager.js';
+import TestDataReader from '../src/utils/TestDataReader.js';
+import LoginPage from '../src/pages/LoginPage.js';
+import ProductsPage from '../src/pages/ProductsPage.js';
+
+describe('Page Error Tests', function() {
+  this.timeout(60000);
+
+  let driver: WebDriver;
+  let loginPage: LoginPage;
+  let productsPage: ProductsPage;
+
+  // Log in as a user and start the test with an empty error list
+  async function loginAs(username: string): Promise<void> {
+    const user = await TestDataReader.getRequiredUser(username);
+    await loginPage.open();
+    await loginPage.login(user.username, user.password);
+    WebDriverManager.clearPageErrors();
+  }
+
+  before(async function() {
+    const pageErrors = config.getPageErrorsConfig();
+    // Tests here expect errors, so they only make sense when errors are recorded but not failing tests
+    if (!pageErrors.enabled || pageErrors.failTests) {
+      this.skip();
+    }
+
+    console.log('Starting page error test suite');
+    driver = await WebDriverManager.createDriver();
+    loginPage = new LoginPage(driver);
+    productsPage = new ProductsPage(driver);
+  });
+
+  after(async function() {
+    if (!driver) return;
+    await WebDriverManager.quitDriver();
+    console.log('Page error test suite completed');
+  });
+
+  it('should record no page errors for standard_user', async function() {
+    await loginAs('standard_user');
+    await productsPage.addProductToCartByName('Sauce Labs Backpack');
+    await productsPage.removeProductFromCartByName('Sauce Labs Backpack');
+
+    await productsPage.expectNoPageErrors();
+  });
+
+  it('should record failed image responses for problem_user', async function() {
+    await loginAs('problem_user');
+    await productsPage.getAllProducts();
+
+    let error: Error | undefined;
+    try {
+      await productsPage.expectNoPageErrors();
+    } catch (caught) {
+      error = caught as Error;
+    }
+    expect(error, 'Expected broken product images to be recorded').to.be.instanceOf(Error);
+    expect(error?.message).to.include('HTTP 404');
+    expect(WebDriverManager.getPageErrors().every(pageError => pageError.type === 'http')).to.be.true;
+  });
+
+  it('should record an uncaught exception for error_user', async function() {
+    await loginAs('error_user');
+    await productsPage.addProductToCartByName('Sauce Labs Backpack');
+    await productsPage.removeProductFromCartByName('Sauce Labs Backpack');
+    await driver.sleep(config.getPageErrorsConfig().settleTime);
+
+    const exceptions = WebDriverManager.getPageErrors().filter(error => error.type === 'exception');
+    expect(exceptions).to.have.lengthOf(1);
+    expect(exceptions[0].message).to.include('Failed to remove item from cart.');
+  });
+});
@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import { WebDriver } from 'selenium-webdriver';
+
+import config from '../src/config/test.config.js';
+import WebDriverManager from '../src/utils/WebDriverManager.js';
+import PerformanceMonitor from '../src/utils/PerformanceMonitor.js';
+import TestDataReader from '../src/utils/TestDataReader.js';
+import LoginPage from '../src/pages/LoginPage.js';
+import ProductsPage from '../src/pages/ProductsPage.js';
+
+describe('Performance Tests', function() {
+  this.timeout(60000);
+
+  let driver: WebDriver;
+  let loginPage: LoginPage;
+  let productsPage: ProductsPage;
+
+  async function loginAs(username: string): Promise<void> {
+    const user = await TestDataReader.getRequiredUser(username);
+    await loginPage.open();
+    await loginPage.login(user.username, user.password);
+    expect(await productsPage.isOnProductsPage()).to.be.true;
+  }
+
+  before(async function() {
+    if (!config.getPerformanceConfig().enabled) {
+      this.skip();
+    }
+
+    console.log('Starting performance test suite');
+    driver = await WebDriverManager.createDriver();
+    loginPage = new LoginPage(driver);
+    productsPage = new ProductsPage(driver);
+  });
+
+  after(async function() {
+    if (!driver) return;
+    await WebDriverManager.quitDriver();
+    console.log('Performance test suite completed');
+  });
+
+  it('should report navigation timings in load order', async function() {
+    await loginAs('standard_user');
+    const timings = await productsPage.getPerformanceTimings();
+
+    expect(timings.ttfb).to.be.at.least(0);
+    expect(timings.domContentLoaded).to.be.at.least(timings.ttfb);
+    expect(timings.load).to.be.at.least(timings.domContentLoaded);
+  });
+
+  it('should load the products page within the time to first byte budget for standard_user', async function() {
+    await loginAs('standard_user');
+    const timings = await productsPage.getPerformanceTimings();
+
+    const budget = PerformanceMonitor.getBudget('/inventory.html');
+    expect(budget.ttfb, 'No TTFB budget for /inventory.html').to.be.a('number');
+    expect(timings.ttfb).to.be.at.most(budget.ttfb as number);
+  });
+
+  it('should go over the time to first byte budget for performance_glitch_user', async function() {
+    // Only the local server delays the inventory page's response; saucedemo.com logs in
+    // with a client-side transition, which leaves the time to first byte alone
+    if (!config.getConfig().localServer.enabled) {
+      this.skip();
+    }
+
+    await loginAs('performance_glitch_user');
+    const timings = await productsPage.getPerformanceTimings();
+
+    const budget = PerformanceMonitor.getBudget('/inventory.html');
+    expect(budget.ttfb, 'No TTFB budget for /inventory.html').to.be.a('number');
+    expect(timings.ttfb).to.be.above(budget.ttfb as number);
+  });
+});
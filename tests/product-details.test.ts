@@ -0,0 +1,83 @@
+import { expect } from 'chai';
+import { WebDriver } from 'selenium-webdriver';
+
+import WebDriverManager from '../src/utils/WebDriverManager.js';
+import AuthHelper from '../src/utils/AuthHelper.js';
+import TestDataReader from '../src/utils/TestDataReader.js';
+import ProductsPage from '../src/pages/ProductsPage.js';
+import ProductDetailsPage from '../src/pages/ProductDetailsPage.js';
+
+describe('Product Details Tests', function() {
+  this.timeout(60000);
+
+  let driver: WebDriver;
+  let productsPage: ProductsPage;
+  let detailsPage: ProductDetailsPage;
+
+  before(async function() {
+    console.log('Starting product details test suite');
+    driver = await WebDriverManager.createDriver();
+    productsPage = new ProductsPage(driver);
+    detailsPage = new ProductDetailsPage(driver);
+
+    await AuthHelper.login(driver, await TestDataReader.getStandardUser(), this.test?.parent?.title || '');
+  });
+
+  after(async function() {
+    await WebDriverManager.quitDriver();
+    console.log('Product details test suite completed');
+  });
+
+  beforeEach(async function() {
+    await productsPage.navigateToProductsPage();
+    await productsPage.resetAppState();
+  });
+
+  it('should show the same product details as the listing', async function() {
+    const products = await productsPage.getAllProducts();
+    expect(products).to.have.lengthOf(6);
+
+    for (const product of products) {
+      const listingImage = await (await productsPage.item(product.name)).getImageSrc();
+      await productsPage.openProductDetails(product.name);
+
+      expect(await detailsPage.isOnProductDetailsPage()).to.be.true;
+      expect(await detailsPage.getProduct()).to.deep.equal(product);
+      expect(await detailsPage.getImageSrc()).to.equal(listingImage);
+
+      await detailsPage.backToProducts();
+    }
+  });
+
+  it('should open the details page by product id', async function() {
+    await productsPage.openProductDetails('Sauce Labs Bolt T-Shirt');
+    const productId = await detailsPage.getProductId();
+
+    await detailsPage.backToProducts();
+    await detailsPage.open(productId);
+
+    expect(await detailsPage.getName()).to.equal('Sauce Labs Bolt T-Shirt');
+  });
+
+  it('should add and remove the product from the details page', async function() {
+    await productsPage.openProductDetails('Sauce Labs Backpack');
+
+    await detailsPage.addToCart();
+    expect(await detailsPage.isInCart()).to.be.true;
+    expect(await (await detailsPage.header()).getCartItemCount()).to.equal(1);
+
+    await detailsPage.removeFromCart();
+    expect(await detailsPage.isInCart()).to.be.false;
+    expect(await (await detailsPage.header()).getCartItemCount()).to.equal(0);
+  });
+
+  it('should keep the cart state when going back to products', async function() {
+    await productsPage.openProductDetails('Sauce Labs Onesie');
+    await detailsPage.addToCart();
+    await detailsPage.backToProducts();
+
+    expect(await productsPage.isOnProductsPage()).to.be.true;
+    expect(await productsPage.isProductInCart('Sauce Labs Onesie')).to.be.true;
+    expect(await productsPage.getCartItemCount()).to.equal(1);
+  });
+});
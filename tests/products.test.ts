@@ -2,6 +2,8 @@ import { expect } from 'chai';
 import { WebDriver } from 'selenium-webdriver';
 
 import WebDriverManager from '../src/utils/WebDriverManager.js';
+import AuthHelper from '../src/utils/AuthHelper.js';
+import CartState from '../src/utils/CartState.js';
 import TestDataReader from '../src/utils/TestDataReader.js';
 import LoginPage from '../src/pages/LoginPage.js';
 import ProductsPage from '../src/pages/ProductsPage.js';
@@ -19,9 +21,7 @@ describe('Products Tests', function() {
     loginPage = new LoginPage(driver);
     productsPage = new ProductsPage(driver);
     
-    const user = await TestDataReader.getStandardUser();
-    await loginPage.open();
-    await loginPage.login(user.username, user.password);
+    await AuthHelper.login(driver, await TestDataReader.getStandardUser(), this.test?.parent?.title || '');
   });
 
   after(async function() {
@@ -49,10 +49,10 @@ describe('Products Tests', function() {
   });
 
   it('should remove product from cart', async function() {
-    await productsPage.resetAppState();
     const productName = 'Sauce Labs Backpack';
+    await CartState.setCart(driver, [productName]);
+    await productsPage.refreshPage();
     
-    await productsPage.addProductToCartByName(productName);
     let cartCount = await productsPage.getCartItemCount();
     expect(cartCount).to.be.greaterThan(0);
     
@@ -73,6 +73,33 @@ describe('Products Tests', function() {
     expect(cartCount).to.equal(products.length);
   });
 
+  it('should keep the cart in localStorage by item id', async function() {
+    await productsPage.resetAppState();
+    await productsPage.addMultipleProductsToCart(['Sauce Labs Bike Light', 'Sauce Labs Onesie']);
+
+    expect(await CartState.getCartIds(driver)).to.deep.equal([0, 2]);
+    expect(await CartState.getCart(driver)).to.deep.equal(['Sauce Labs Bike Light', 'Sauce Labs Onesie']);
+
+    await productsPage.resetAppState();
+    expect(await CartState.getCart(driver)).to.be.empty;
+    expect(await productsPage.getCartItemCount()).to.equal(0);
+  });
+
+  it('should add and remove a product through its card', async function() {
+    await productsPage.resetAppState();
+    const item = await productsPage.item('Sauce Labs Backpack');
+    const header = await productsPage.header();
+
+    expect(await item.getPrice()).to.equal(29.99);
+    await item.addToCart();
+    expect(await item.isInCart()).to.be.true;
+    expect(await header.getCartItemCount()).to.equal(1);
+
+    await item.removeFromCart();
+    expect(await item.isInCart()).to.be.false;
+    expect(await header.isCartBadgeDisplayed()).to.be.false;
+  });
+
   it('should sort products by name A to Z', async function() {
     await productsPage.sortProducts('az');
     
@@ -156,6 +183,14 @@ describe('Products Tests', function() {
     });
   });
 
+  it('should have no critical accessibility violations', async function() {
+    // The sort dropdown has no label on saucedemo.com either
+    const audit = await productsPage.auditAccessibility({ disableRules: ['select-name'] });
+
+    const critical = audit.violations.filter(violation => violation.impact === 'critical');
+    expect(critical.map(violation => violation.id)).to.be.empty;
+  });
+
   it('should logout successfully', async function() {
     await productsPage.logout();
     
@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import { WebDriver } from 'selenium-webdriver';
+
+import WebDriverManager from '../src/utils/WebDriverManager.js';
+import AuthHelper from '../src/utils/AuthHelper.js';
+import TestDataReader from '../src/utils/TestDataReader.js';
+import LoginPage from '../src/pages/LoginPage.js';
+import ProductsPage from '../src/pages/ProductsPage.js';
+
+const DEVICES = ['iphone', 'pixel', 'ipad'];
+
+DEVICES.forEach(device => {
+  describe(`Responsive Tests (${device})`, function() {
+    this.timeout(60000);
+
+    let driver: WebDriver;
+    let loginPage: LoginPage;
+    let productsPage: ProductsPage;
+
+    before(async function() {
+      console.log(`Starting responsive test suite on ${device}`);
+      driver = await WebDriverManager.createDeviceDriver(device);
+      loginPage = new LoginPage(driver);
+      productsPage = new ProductsPage(driver);
+
+      await AuthHelper.login(driver, await TestDataReader.getStandardUser(), this.test?.parent?.title || '');
+    });
+
+    after(async function() {
+      await WebDriverManager.quitDriver();
+      console.log(`Responsive test suite on ${device} completed`);
+    });
+
+    it('should render the narrow layout', async function() {
+      const viewportWidth = await driver.executeScript<number>('return window.innerWidth;');
+      expect(viewportWidth).to.be.lessThan(1000);
+
+      const products = await productsPage.getAllProducts();
+      expect(products).to.have.lengthOf(6);
+    });
+
+    it('should open and close the menu', async function() {
+      await productsPage.openMenu();
+      expect(await productsPage.isMenuOpen()).to.be.true;
+
+      await productsPage.closeMenu();
+      expect(await productsPage.isMenuOpen()).to.be.false;
+    });
+
+    it('should sort products with the collapsed dropdown', async function() {
+      await productsPage.sortProducts('hilo');
+
+      const prices = await productsPage.getProductPrices();
+      expect(prices).to.deep.equal([...prices].sort((a, b) => b - a));
+      expect(await productsPage.getCurrentSortOption()).to.equal('hilo');
+    });
+
+    it('should reach the cart from the header with the menu open', async function() {
+      await productsPage.addProductToCartByName('Sauce Labs Backpack');
+      await productsPage.openMenu();
+      await productsPage.goToCart();
+
+      const url = await driver.getCurrentUrl();
+      expect(url).to.include('cart.html');
+      await productsPage.navigateToProductsPage();
+    });
+
+    it('should logout from the menu', async function() {
+      await productsPage.logout();
+
+      const isOnLoginPage = await loginPage.isOnLoginPage();
+      expect(isOnLoginPage).to.be.true;
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import { By, WebDriver } from 'selenium-webdriver';
+
+import config from '../src/config/test.config.js';
+import WebDriverManager from '../src/utils/WebDriverManager.js';
+import AuthHelper from '../src/utils/AuthHelper.js';
+import ScreenshotUtils from '../src/utils/ScreenshotUtils.js';
+import TestDataReader from '../src/utils/TestDataReader.js';
+import LoginPage from '../src/pages/LoginPage.js';
+import ProductsPage from '../src/pages/ProductsPage.js';
+
+describe('Visual Tests', function() {
+  this.timeout(60000);
+
+  let driver: WebDriver;
+  let loginPage: LoginPage;
+  let productsPage: ProductsPage;
+
+  // A missing baseline fails the comparison; npm run test:visual:update records the baselines to commit
+  async function skipWithoutBaseline(context: Mocha.Context, name: string): Promise<void> {
+    if (config.getVisualConfig().updateBaselines || await ScreenshotUtils.hasBaseline(driver, name)) return;
+    console.log(`Skipping: no baseline for snapshot '${name}', run npm run test:visual:update to record it`);
+    context.skip();
+  }
+
+  before(async function() {
+    console.log('Starting visual test suite');
+    driver = await WebDriverManager.createDriver();
+    loginPage = new LoginPage(driver);
+    productsPage = new ProductsPage(driver);
+
+    await AuthHelper.login(driver, await TestDataReader.getStandardUser(), this.test?.parent?.title || '');
+  });
+
+  after(async function() {
+    await WebDriverManager.quitDriver();
+    console.log('Visual test suite completed');
+  });
+
+  it('should match the products page snapshot', async function() {
+    await skipWithoutBaseline(this, 'products');
+    await productsPage.expectPageToMatchSnapshot('products', {
+      ignore: [By.css('.shopping_cart_badge')]
+    });
+  });
+
+  it('should match the header snapshot', async function() {
+    await skipWithoutBaseline(this, 'header');
+    await productsPage.expectElementToMatchSnapshot(By.css('.primary_header'), 'header');
+  });
+
+  it('should catch the visual bugs of visual_user', async function() {
+    // Update mode accepts every screenshot as the new baseline
+    if (config.getVisualConfig().updateBaselines) {
+      this.skip();
+    }
+    await skipWithoutBaseline(this, 'header');
+
+    const user = await TestDataReader.getRequiredUser('visual_user');
+    await productsPage.logout();
+    await loginPage.login(user.username, user.password);
+
+    let error: Error | undefined;
+    try {
+      await productsPage.expectElementToMatchSnapshot(By.css('.primary_header'), 'header');
+    } catch (caught) {
+      error = caught as Error;
+    }
+    expect(error?.message).to.match(/Snapshot 'header' differs from its baseline/);
+  });
+});